@@ -0,0 +1,249 @@
+/**
+ * Zhipu API error mapping for ChatGLM Router
+ * Turns the `{error: {code, message}}` envelope of a failed request, or of an error event in
+ * the middle of a stream, into a vscode.LanguageModelError with a localized message and
+ * follow-up actions.
+ */
+
+import * as vscode from "vscode";
+import type { ProviderConfig } from "./config";
+import { HttpStatusError } from "./retry";
+import { StreamApiError } from "./stream-session";
+
+/**
+ * Known failure categories
+ */
+export type ApiErrorKind = "auth" | "balance" | "rateLimit" | "contentFilter" | "modelNotFound" | "contextTooLong";
+
+/**
+ * Error envelope returned by Zhipu (and most OpenAI-compatible servers)
+ */
+export interface ApiErrorEnvelope {
+	code?: string;
+	message?: string;
+}
+
+/**
+ * Follow-up offered next to an error notification
+ */
+export type ApiErrorAction = "reenterKey" | "openBilling" | "switchModel";
+
+/** Zhipu business error codes, see https://open.bigmodel.cn/dev/api/error-code/error-code-v4 */
+const ERROR_CODES: Record<string, ApiErrorKind> = {
+	"1000": "auth",
+	"1001": "auth",
+	"1002": "auth",
+	"1003": "auth",
+	"1004": "auth",
+	"1113": "balance",
+	"1211": "modelNotFound",
+	"1221": "modelNotFound",
+	"1261": "contextTooLong",
+	"1301": "contentFilter",
+	"1302": "rateLimit",
+	"1303": "rateLimit",
+	"1304": "rateLimit",
+	"1305": "rateLimit",
+};
+
+/** Zhipu billing console */
+export const BILLING_URL = "https://open.bigmodel.cn/finance/overview";
+
+/**
+ * Messages per kind; {0} is the provider name, {1} the model ID
+ */
+const MESSAGES: Record<ApiErrorKind, { en: string; zh: string }> = {
+	auth: {
+		en: "{0} rejected the API key. Re-enter the key with \"Manage ChatGLM Router\".",
+		zh: "{0} 拒绝了 API Key，请通过 \"Manage ChatGLM Router\" 重新输入。",
+	},
+	balance: {
+		en: "{0} account balance is insufficient. Top up in the billing console or switch to another provider.",
+		zh: "{0} 账户余额不足，请前往费用中心充值或切换到其他提供者。",
+	},
+	rateLimit: {
+		en: "{0} rate limit reached for {1}. Wait a moment and try again, or add more keys to the API key pool.",
+		zh: "{0} 的 {1} 已达到调用频率上限，请稍后重试或向 API Key 池添加更多 Key。",
+	},
+	contentFilter: {
+		en: "{0} blocked the request because the input or output was flagged by its content filter. Rephrase the request and try again.",
+		zh: "{0} 的内容安全审核拦截了本次请求，请调整内容后重试。",
+	},
+	modelNotFound: {
+		en: "{0} does not offer model {1}, or this key has no access to it. Switch to another model.",
+		zh: "{0} 不提供模型 {1}，或当前 Key 无权使用该模型，请切换到其他模型。",
+	},
+	contextTooLong: {
+		en: "The conversation is too long for {1}. Start a new chat or switch to a model with a larger context window.",
+		zh: "对话长度超出了 {1} 的上下文上限，请新建对话或切换到上下文更大的模型。",
+	},
+};
+
+/** Button labels per action */
+const ACTION_LABELS: Record<ApiErrorAction, { en: string; zh: string }> = {
+	reenterKey: { en: "Re-enter API Key", zh: "重新输入 API Key" },
+	openBilling: { en: "Open Billing", zh: "打开费用中心" },
+	switchModel: { en: "Switch Model", zh: "切换模型" },
+};
+
+/**
+ * Parse the error envelope of a response body
+ * @param body Raw response body
+ * @returns Code and message, or undefined if the body is not a JSON error envelope
+ */
+export function parseErrorEnvelope(body: string): ApiErrorEnvelope | undefined {
+	try {
+		const parsed = JSON.parse(body) as { error?: { code?: unknown; message?: unknown } };
+		const error = parsed?.error;
+		if (!error || typeof error !== "object") {
+			return undefined;
+		}
+		return {
+			code: error.code === undefined || error.code === null ? undefined : String(error.code),
+			message: typeof error.message === "string" ? error.message : undefined,
+		};
+	} catch {
+		// Non-JSON error body
+		return undefined;
+	}
+}
+
+/**
+ * Code and message of a failed request or stream error event
+ * @param err The failure
+ */
+function errorDetail(err: HttpStatusError | StreamApiError): ApiErrorEnvelope | undefined {
+	if (err instanceof HttpStatusError) {
+		return parseErrorEnvelope(err.body);
+	}
+	const payload = err.payload as { error?: { message?: unknown }; message?: unknown } | undefined;
+	const message = payload?.error?.message ?? payload?.message;
+	return { code: err.code, message: typeof message === "string" ? message : undefined };
+}
+
+/**
+ * Classify a failed request by its business code, falling back to the HTTP status
+ * @param err The failed request, or an error event sent in the middle of the stream
+ */
+export function classifyApiError(err: HttpStatusError | StreamApiError): ApiErrorKind | undefined {
+	const code = errorDetail(err)?.code;
+	if (code && ERROR_CODES[code]) {
+		return ERROR_CODES[code];
+	}
+	if (err instanceof StreamApiError) {
+		return undefined;
+	}
+	switch (err.status) {
+		case 401:
+			return "auth";
+		case 402:
+			return "balance";
+		case 404:
+			return "modelNotFound";
+		case 413:
+			return "contextTooLong";
+		case 429:
+			return "rateLimit";
+		default:
+			return undefined;
+	}
+}
+
+/**
+ * Follow-up actions that help with an error
+ * @param kind Failure category
+ * @param provider Provider that failed; billing only applies to Zhipu's own endpoints
+ */
+export function getErrorActions(kind: ApiErrorKind, provider: ProviderConfig): ApiErrorAction[] {
+	switch (kind) {
+		case "auth":
+			return ["reenterKey"];
+		case "balance":
+			return provider.isCustom ? ["switchModel"] : ["openBilling", "switchModel"];
+		case "modelNotFound":
+		case "contextTooLong":
+			return ["switchModel"];
+		default:
+			return [];
+	}
+}
+
+/**
+ * Convert a failed chat request into a LanguageModelError with an actionable message
+ * @param err The failed request, or an error event sent in the middle of the stream
+ * @param provider Provider that served the request
+ * @param modelId Model ID as sent to the provider
+ * @param language UI language; Chinese locales get Chinese messages
+ * @returns The mapped error (with the original as cause) and its follow-up actions,
+ * or undefined for errors without a known mapping
+ */
+export function toLanguageModelError(
+	err: HttpStatusError | StreamApiError,
+	provider: ProviderConfig,
+	modelId: string,
+	language: string = vscode.env.language
+): { error: vscode.LanguageModelError; kind: ApiErrorKind; actions: ApiErrorAction[] } | undefined {
+	const kind = classifyApiError(err);
+	if (!kind) {
+		return undefined;
+	}
+	const locale = isChinese(language) ? "zh" : "en";
+	let message = MESSAGES[kind][locale].replace("{0}", provider.name).replace("{1}", modelId);
+	const detail = errorDetail(err);
+	if (detail?.message) {
+		message += ` (${detail.code ? `${detail.code}: ` : ""}${detail.message})`;
+	}
+
+	let error: vscode.LanguageModelError;
+	switch (kind) {
+		case "auth":
+			error = vscode.LanguageModelError.NoPermissions(message);
+			break;
+		case "balance":
+		case "rateLimit":
+		case "contentFilter":
+			error = vscode.LanguageModelError.Blocked(message);
+			break;
+		case "modelNotFound":
+			error = vscode.LanguageModelError.NotFound(message);
+			break;
+		default:
+			error = new vscode.LanguageModelError(message);
+	}
+	(error as { cause?: unknown }).cause = err;
+	return { error, kind, actions: getErrorActions(kind, provider) };
+}
+
+/**
+ * Show a non-blocking notification offering the follow-up actions and run the chosen one
+ * @param message Error message
+ * @param actions Follow-ups to offer
+ * @param language UI language
+ */
+export async function offerErrorActions(
+	message: string,
+	actions: ApiErrorAction[],
+	language: string = vscode.env.language
+): Promise<void> {
+	if (actions.length === 0) {
+		return;
+	}
+	const locale = isChinese(language) ? "zh" : "en";
+	const labels = actions.map((action) => ACTION_LABELS[action][locale]);
+	const picked = await vscode.window.showErrorMessage(message, ...labels);
+	switch (actions[labels.indexOf(picked ?? "")]) {
+		case "reenterKey":
+			await vscode.commands.executeCommand("chatglmRouter.manage");
+			break;
+		case "openBilling":
+			await vscode.env.openExternal(vscode.Uri.parse(BILLING_URL));
+			break;
+		case "switchModel":
+			await vscode.commands.executeCommand("workbench.action.chat.openModelPicker");
+			break;
+	}
+}
+
+function isChinese(language: string): boolean {
+	return language.toLowerCase().startsWith("zh");
+}
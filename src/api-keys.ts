@@ -0,0 +1,419 @@
+/**
+ * API key storage for ChatGLM Router
+ * Every provider has its own keys, and keys are grouped into named profiles
+ * (e.g. "personal", "work") so one set of keys can be swapped for another.
+ * A provider may hold several keys; requests fail over to the next key when one is
+ * rate limited, out of balance or rejected, and that key cools down for a while.
+ */
+
+import * as vscode from "vscode";
+import type { ProviderConfig } from "./config";
+import type { HttpStatusError } from "./retry";
+import { classifyApiError } from "./api-errors";
+import { log } from "./logger";
+
+/** Profile that uses the provider's plain secret key (and holds keys saved before profiles existed) */
+export const DEFAULT_PROFILE = "default";
+
+/** Secret that used to hold the key shared by both ChatGLM endpoints */
+const LEGACY_SHARED_SECRET = "chatglm-router.apiKey.chatglm";
+
+const PROFILE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+/**
+ * Why a key was taken out of rotation
+ * - "rateLimit": HTTP 429 or a Zhipu rate-limit code
+ * - "quota": balance or resource package exhausted (code 1113)
+ * - "auth": HTTP 401, the key is invalid or revoked
+ */
+export type KeyFailureReason = "rateLimit" | "quota" | "auth";
+
+/** How long a key rests after a quota or authentication failure */
+const QUOTA_COOLDOWN_MS = 60 * 60 * 1000;
+const AUTH_COOLDOWN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Rotation state of a provider's key pool
+ */
+export interface KeyPoolStatus {
+	/** Index of the key used for the next request */
+	activeIndex: number;
+	total: number;
+	/** Keys currently cooling down */
+	coolingDown: number;
+}
+
+/**
+ * Read the cooldown applied to a rate-limited key
+ * @returns Cooldown in milliseconds
+ */
+export function getRateLimitCooldownMs(): number {
+	const config = vscode.workspace.getConfiguration("chatglmRouter.apiKeyPool");
+	return Math.max(0, config.get<number>("cooldownSeconds", 60)) * 1000;
+}
+
+/**
+ * Decide whether an API error should move the request to another key
+ * @param err HTTP error from the provider
+ * @returns The failure reason, or undefined when another key would not help
+ */
+export function getKeyFailureReason(err: HttpStatusError): KeyFailureReason | undefined {
+	switch (classifyApiError(err)) {
+		case "auth":
+			return "auth";
+		case "balance":
+			return "quota";
+		case "rateLimit":
+			return "rateLimit";
+		default:
+			return undefined;
+	}
+}
+
+/** Map key identifying one key of one pool */
+function cooldownId(secret: string, apiKey: string): string {
+	return `${secret}\n${apiKey}`;
+}
+
+/**
+ * Stored profile state
+ */
+interface ProfileState {
+	active: string;
+	names: string[];
+}
+
+/**
+ * Per-provider API keys grouped into named profiles
+ */
+export class ApiKeyStore {
+	private static readonly STORAGE_KEY = "chatglm-router.apiKeyProfiles";
+
+	private readonly _onDidChangeActiveProfile = new vscode.EventEmitter<string>();
+	readonly onDidChangeActiveProfile = this._onDidChangeActiveProfile.event;
+
+	// Fired when a provider's pool rotates to another key
+	private readonly _onDidChangeActiveKey = new vscode.EventEmitter<ProviderConfig>();
+	readonly onDidChangeActiveKey = this._onDidChangeActiveKey.event;
+
+	/** Cooldown end per key, keyed by pool secret and key (kept in memory only) */
+	private readonly _cooldowns = new Map<string, number>();
+	/** Index of the key in use, keyed by pool secret */
+	private readonly _activeIndex = new Map<string, number>();
+
+	/**
+	 * @param secrets Secret storage holding the keys
+	 * @param globalState Where the profile list is kept; without it only the default profile exists
+	 */
+	constructor(
+		private readonly secrets: vscode.SecretStorage,
+		private readonly globalState?: vscode.Memento
+	) {}
+
+	/** Name of the profile whose keys are used for requests */
+	get activeProfile(): string {
+		const state = this.getState();
+		return state.names.includes(state.active) ? state.active : DEFAULT_PROFILE;
+	}
+
+	/** All profile names, default first */
+	get profiles(): string[] {
+		return [DEFAULT_PROFILE, ...this.getState().names.filter((n) => n !== DEFAULT_PROFILE)];
+	}
+
+	/**
+	 * Secret storage key of a provider's API key in a profile
+	 * @param provider Provider configuration
+	 * @param profile Profile name (defaults to the active profile)
+	 */
+	secretKeyFor(provider: ProviderConfig, profile: string = this.activeProfile): string {
+		return profile === DEFAULT_PROFILE ? provider.apiKeySecret : `${provider.apiKeySecret}.profile.${profile}`;
+	}
+
+	/**
+	 * Get the API key to use for a provider: the active key of the pool, or the next key
+	 * that is not cooling down. When every key is cooling down, the one that recovers first.
+	 * @param provider Provider configuration
+	 * @param now Current time
+	 */
+	async get(provider: ProviderConfig, now: number = Date.now()): Promise<string | undefined> {
+		const keys = await this.getKeys(provider);
+		if (keys.length === 0) {
+			return undefined;
+		}
+		const index = this.pickIndex(provider, keys, now);
+		return keys[index];
+	}
+
+	/**
+	 * Get all keys of a provider in the active profile
+	 * @param provider Provider configuration
+	 */
+	async getKeys(provider: ProviderConfig): Promise<string[]> {
+		const secret = this.secretKeyFor(provider);
+		const primary = await this.secrets.get(secret);
+		if (!primary) {
+			return [];
+		}
+		let extra: string[] = [];
+		const pool = await this.secrets.get(`${secret}.pool`);
+		if (pool) {
+			try {
+				const parsed = JSON.parse(pool);
+				extra = Array.isArray(parsed) ? parsed.filter((k): k is string => typeof k === "string" && !!k) : [];
+			} catch {
+				log.warn(`Ignoring unreadable key pool for ${provider.id}`);
+			}
+		}
+		const keys = [...new Set([primary, ...extra])];
+		keys.forEach((key) => log.addSecret(key));
+		return keys;
+	}
+
+	/**
+	 * Replace the keys of a provider in the active profile; an empty list deletes them
+	 * @param provider Provider configuration
+	 * @param keys API keys, in rotation order
+	 */
+	async setKeys(provider: ProviderConfig, keys: readonly string[]): Promise<void> {
+		const secret = this.secretKeyFor(provider);
+		const unique = [...new Set(keys.map((k) => k.trim()).filter((k) => k))];
+		if (unique.length === 0) {
+			await this.secrets.delete(secret);
+		} else {
+			await this.secrets.store(secret, unique[0]);
+		}
+		if (unique.length > 1) {
+			await this.secrets.store(`${secret}.pool`, JSON.stringify(unique.slice(1)));
+		} else {
+			await this.secrets.delete(`${secret}.pool`);
+		}
+		// Edited keys start fresh
+		this._activeIndex.delete(secret);
+		for (const id of [...this._cooldowns.keys()]) {
+			if (id.startsWith(`${secret}\n`)) {
+				this._cooldowns.delete(id);
+			}
+		}
+		this._onDidChangeActiveKey.fire(provider);
+	}
+
+	/**
+	 * Save a single API key for a provider in the active profile
+	 * @param provider Provider configuration
+	 * @param apiKey API key
+	 */
+	async store(provider: ProviderConfig, apiKey: string): Promise<void> {
+		await this.setKeys(provider, [apiKey]);
+	}
+
+	/**
+	 * Delete all API keys of a provider from the active profile
+	 * @param provider Provider configuration
+	 */
+	async delete(provider: ProviderConfig): Promise<void> {
+		await this.setKeys(provider, []);
+	}
+
+	/**
+	 * Take a key out of rotation after a failed request and move to the next key
+	 * @param provider Provider configuration
+	 * @param apiKey Key that failed
+	 * @param reason Failure reason
+	 * @param retryAfterMs Server-requested wait, if any
+	 * @param now Current time
+	 * @returns True when another key is available right away
+	 */
+	async reportFailure(
+		provider: ProviderConfig,
+		apiKey: string,
+		reason: KeyFailureReason,
+		retryAfterMs?: number,
+		now: number = Date.now()
+	): Promise<boolean> {
+		const secret = this.secretKeyFor(provider);
+		const cooldown =
+			reason === "auth" ? AUTH_COOLDOWN_MS : reason === "quota" ? QUOTA_COOLDOWN_MS : Math.max(retryAfterMs ?? 0, getRateLimitCooldownMs());
+		this._cooldowns.set(cooldownId(secret, apiKey), now + cooldown);
+
+		const keys = await this.getKeys(provider);
+		const failedIndex = keys.indexOf(apiKey);
+		const next = this.pickIndex(provider, keys, now);
+		const available = next !== failedIndex && !this.isCoolingDown(secret, keys[next], now);
+		log.warn(`API key ${failedIndex + 1}/${keys.length} of ${provider.id} failed (${reason})`, {
+			cooldownSeconds: Math.round(cooldown / 1000),
+			nextKey: available ? next + 1 : undefined,
+		});
+		return available;
+	}
+
+	/**
+	 * Remember the key that served a request so later requests keep using it
+	 * @param provider Provider configuration
+	 * @param apiKey Key that succeeded
+	 */
+	async reportSuccess(provider: ProviderConfig, apiKey: string): Promise<void> {
+		const secret = this.secretKeyFor(provider);
+		this._cooldowns.delete(cooldownId(secret, apiKey));
+		const index = (await this.getKeys(provider)).indexOf(apiKey);
+		if (index >= 0) {
+			this.setActiveIndex(provider, index);
+		}
+	}
+
+	/**
+	 * Describe the rotation state of a provider's keys
+	 * @param provider Provider configuration
+	 * @param now Current time
+	 */
+	async getPoolStatus(provider: ProviderConfig, now: number = Date.now()): Promise<KeyPoolStatus> {
+		const secret = this.secretKeyFor(provider);
+		const keys = await this.getKeys(provider);
+		return {
+			activeIndex: keys.length > 0 ? this.pickIndex(provider, keys, now) : 0,
+			total: keys.length,
+			coolingDown: keys.filter((k) => this.isCoolingDown(secret, k, now)).length,
+		};
+	}
+
+	/**
+	 * Choose the key index to use: the active key unless it is cooling down, then the
+	 * following keys in order, then the key whose cooldown ends first
+	 */
+	private pickIndex(provider: ProviderConfig, keys: readonly string[], now: number): number {
+		const secret = this.secretKeyFor(provider);
+		const start = Math.min(this._activeIndex.get(secret) ?? 0, keys.length - 1);
+		let soonest = start;
+		for (let offset = 0; offset < keys.length; offset++) {
+			const index = (start + offset) % keys.length;
+			if (!this.isCoolingDown(secret, keys[index], now)) {
+				this.setActiveIndex(provider, index);
+				return index;
+			}
+			if ((this._cooldowns.get(cooldownId(secret, keys[index])) ?? 0) < (this._cooldowns.get(cooldownId(secret, keys[soonest])) ?? 0)) {
+				soonest = index;
+			}
+		}
+		return soonest;
+	}
+
+	private isCoolingDown(secret: string, apiKey: string, now: number): boolean {
+		return (this._cooldowns.get(cooldownId(secret, apiKey)) ?? 0) > now;
+	}
+
+	private setActiveIndex(provider: ProviderConfig, index: number): void {
+		const secret = this.secretKeyFor(provider);
+		if ((this._activeIndex.get(secret) ?? 0) !== index) {
+			this._activeIndex.set(secret, index);
+			this._onDidChangeActiveKey.fire(provider);
+		}
+	}
+
+	/**
+	 * Create a profile; it starts without keys
+	 * @param name Profile name
+	 */
+	async addProfile(name: string): Promise<void> {
+		const error = ApiKeyStore.validateProfileName(name, this.profiles);
+		if (error) {
+			throw new Error(error);
+		}
+		const state = this.getState();
+		await this.setState({ ...state, names: [...state.names, name] });
+	}
+
+	/**
+	 * Delete a profile and its keys; the default profile cannot be removed
+	 * @param name Profile name
+	 * @param providers Providers whose keys should be deleted
+	 */
+	async removeProfile(name: string, providers: readonly ProviderConfig[]): Promise<void> {
+		if (name === DEFAULT_PROFILE) {
+			throw new Error("The default profile cannot be deleted.");
+		}
+		for (const provider of providers) {
+			await this.secrets.delete(this.secretKeyFor(provider, name));
+			await this.secrets.delete(`${this.secretKeyFor(provider, name)}.pool`);
+		}
+		const wasActive = this.activeProfile === name;
+		const state = this.getState();
+		await this.setState({
+			active: wasActive ? DEFAULT_PROFILE : state.active,
+			names: state.names.filter((n) => n !== name),
+		});
+		if (wasActive) {
+			this._onDidChangeActiveProfile.fire(DEFAULT_PROFILE);
+		}
+	}
+
+	/**
+	 * Switch the profile used for requests
+	 * @param name Existing profile name
+	 */
+	async setActiveProfile(name: string): Promise<void> {
+		if (!this.profiles.includes(name)) {
+			throw new Error(`Unknown API key profile "${name}".`);
+		}
+		if (name === this.activeProfile) {
+			return;
+		}
+		await this.setState({ ...this.getState(), active: name });
+		log.info(`Switched API key profile to ${name}`);
+		this._onDidChangeActiveProfile.fire(name);
+	}
+
+	/**
+	 * Move the key once shared by both ChatGLM endpoints to each endpoint's own secret
+	 * (default profile), keeping keys that were already set per endpoint
+	 * @param providers Built-in ChatGLM providers
+	 */
+	async migrateLegacyKey(providers: readonly ProviderConfig[]): Promise<void> {
+		const legacy = await this.secrets.get(LEGACY_SHARED_SECRET);
+		if (!legacy) {
+			return;
+		}
+		for (const provider of providers) {
+			if (provider.apiKeySecret !== LEGACY_SHARED_SECRET && !(await this.secrets.get(provider.apiKeySecret))) {
+				await this.secrets.store(provider.apiKeySecret, legacy);
+			}
+		}
+		await this.secrets.delete(LEGACY_SHARED_SECRET);
+		log.info("Migrated shared ChatGLM API key to per-provider keys");
+	}
+
+	/**
+	 * Check a new profile name
+	 * @param name Proposed name
+	 * @param existing Existing profile names
+	 * @returns An error message, or undefined when valid
+	 */
+	static validateProfileName(name: string, existing: readonly string[]): string | undefined {
+		if (!PROFILE_NAME_PATTERN.test(name)) {
+			return "Use letters, digits, \".\", \"_\" or \"-\".";
+		}
+		if (existing.includes(name)) {
+			return `Profile "${name}" already exists.`;
+		}
+		return undefined;
+	}
+
+	dispose(): void {
+		this._onDidChangeActiveProfile.dispose();
+		this._onDidChangeActiveKey.dispose();
+	}
+
+	private getState(): ProfileState {
+		const stored = this.globalState?.get<ProfileState>(ApiKeyStore.STORAGE_KEY);
+		return {
+			active: typeof stored?.active === "string" ? stored.active : DEFAULT_PROFILE,
+			names: Array.isArray(stored?.names) ? stored.names : [],
+		};
+	}
+
+	private async setState(state: ProfileState): Promise<void> {
+		if (!this.globalState) {
+			throw new Error("API key profiles are not available.");
+		}
+		await this.globalState.update(ApiKeyStore.STORAGE_KEY, state);
+	}
+}
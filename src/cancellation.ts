@@ -0,0 +1,26 @@
+/**
+ * Helpers bridging VS Code cancellation to fetch() aborts
+ */
+
+import * as vscode from "vscode";
+
+/**
+ * Create an AbortController that aborts when the given token is cancelled
+ * @param token Cancellation token of the chat or model-list request
+ * @returns The controller and a dispose function that detaches the token listener
+ */
+export function createAbortController(token: vscode.CancellationToken | undefined): {
+	controller: AbortController;
+	dispose: () => void;
+} {
+	const controller = new AbortController();
+	if (!token) {
+		return { controller, dispose: () => {} };
+	}
+	if (token.isCancellationRequested) {
+		controller.abort();
+		return { controller, dispose: () => {} };
+	}
+	const listener = token.onCancellationRequested(() => controller.abort());
+	return { controller, dispose: () => listener.dispose() };
+}
@@ -0,0 +1,211 @@
+/**
+ * Context compaction for ChatGLM Router
+ * Shrinks a conversation that does not fit the model's input budget instead of failing the
+ * request: oversized tool results are truncated first, then the oldest exchanges are dropped.
+ * Tool calls always stay together with their results so validateRequest still holds.
+ */
+
+import * as vscode from "vscode";
+import { estimateMessageTokens, estimateTextTokens } from "./tokenizer";
+import { isImageDataPart, isToolResultPart, serializeToolResultPart } from "./utils";
+
+/**
+ * How to handle a conversation that exceeds the input budget
+ * - "off": fail the request as before
+ * - "dropOldest": drop the oldest exchanges
+ * - "auto": truncate oversized tool results, then drop the oldest exchanges
+ */
+export type CompactionStrategy = "off" | "dropOldest" | "auto";
+
+/**
+ * Compaction settings
+ */
+export interface CompactionOptions {
+	strategy: CompactionStrategy;
+	/** Tool results larger than this are truncated (strategy "auto") */
+	maxToolResultTokens: number;
+	/** Token counter for a message; defaults to the local estimator */
+	countTokens?: (message: vscode.LanguageModelChatMessage) => number;
+}
+
+/**
+ * Outcome of a compaction pass
+ */
+export interface CompactionResult {
+	messages: vscode.LanguageModelChatMessage[];
+	tokensBefore: number;
+	tokensAfter: number;
+	droppedMessages: number;
+	truncatedToolResults: number;
+}
+
+/** Appended where a tool result was cut; {0} is the number of omitted tokens */
+const TRUNCATION_MARKER = "\n\n[... truncated about {0} tokens to fit the context window ...]";
+
+/**
+ * Read compaction settings
+ */
+export function getCompactionOptions(): CompactionOptions {
+	const config = vscode.workspace.getConfiguration("chatglmRouter.contextCompaction");
+	const strategy = config.get<string>("strategy", "auto");
+	return {
+		strategy: strategy === "off" || strategy === "dropOldest" ? strategy : "auto",
+		maxToolResultTokens: Math.max(256, config.get<number>("maxToolResultTokens", 8000)),
+	};
+}
+
+/**
+ * Fit messages into a token budget
+ * @param messages Conversation as sent by the host
+ * @param budget Tokens available for messages (input limit minus tool definitions)
+ * @param options Compaction settings
+ * @returns The compacted conversation; it may still exceed the budget when nothing more can be removed
+ */
+export function compactMessages(
+	messages: readonly vscode.LanguageModelChatMessage[],
+	budget: number,
+	options: CompactionOptions
+): CompactionResult {
+	const count = options.countTokens ?? estimateMessageTokens;
+	let current = [...messages];
+	const tokensBefore = sum(current.map(count));
+	const result: CompactionResult = {
+		messages: current,
+		tokensBefore,
+		tokensAfter: tokensBefore,
+		droppedMessages: 0,
+		truncatedToolResults: 0,
+	};
+	if (tokensBefore <= budget || options.strategy === "off") {
+		return result;
+	}
+
+	if (options.strategy === "auto") {
+		current = current.map((message) => {
+			const truncated = truncateToolResults(message, options.maxToolResultTokens);
+			result.truncatedToolResults += truncated.count;
+			return truncated.message;
+		});
+	}
+
+	const units = groupExchanges(current);
+	const tokens = units.map((unit) => sum(unit.messages.map(count)));
+	let total = sum(tokens);
+	for (let i = 0; i < units.length && total > budget; i++) {
+		if (units[i].pinned) {
+			continue;
+		}
+		total -= tokens[i];
+		result.droppedMessages += units[i].messages.length;
+		units[i].dropped = true;
+	}
+
+	result.messages = units.filter((unit) => !unit.dropped).flatMap((unit) => unit.messages);
+	result.tokensAfter = total;
+	return result;
+}
+
+/**
+ * A run of messages that must be kept or dropped together
+ */
+interface Exchange {
+	messages: vscode.LanguageModelChatMessage[];
+	/** System prompt, current user prompt and the latest exchange are never dropped */
+	pinned: boolean;
+	dropped?: boolean;
+}
+
+/**
+ * Split a conversation into droppable units: each assistant message together with every
+ * message holding results of its tool calls, and each user prompt on its own
+ * @param messages Conversation
+ */
+function groupExchanges(messages: readonly vscode.LanguageModelChatMessage[]): Exchange[] {
+	const units: Exchange[] = [];
+	const unitOfCall = new Map<string, Exchange>();
+	let lastPromptUnit: Exchange | undefined;
+	for (const message of messages) {
+		const results = message.content.filter((part): part is vscode.LanguageModelToolResultPart => isToolResultPart(part));
+		const isPrompt = message.role === vscode.LanguageModelChatMessageRole.User && results.length < message.content.length;
+		// A message with tool results, even mixed with text, belongs to the unit of the calls it answers
+		const owner = results.map((part) => unitOfCall.get(part.callId)).find((unit) => unit !== undefined)
+			?? (results.length > 0 && !isPrompt ? units[units.length - 1] : undefined);
+		if (owner) {
+			owner.messages.push(message);
+			if (isPrompt) {
+				lastPromptUnit = owner;
+			}
+			continue;
+		}
+		// System messages use a role outside the stable enum
+		const role = message.role as unknown as number;
+		const isSystem = role !== vscode.LanguageModelChatMessageRole.User && role !== vscode.LanguageModelChatMessageRole.Assistant;
+		const unit: Exchange = { messages: [message], pinned: isSystem };
+		for (const part of message.content) {
+			if (part instanceof vscode.LanguageModelToolCallPart) {
+				unitOfCall.set(part.callId, unit);
+			}
+		}
+		if (isPrompt) {
+			lastPromptUnit = unit;
+		}
+		units.push(unit);
+	}
+	if (lastPromptUnit) {
+		lastPromptUnit.pinned = true;
+	}
+	if (units.length > 0) {
+		units[units.length - 1].pinned = true;
+	}
+	return units;
+}
+
+/**
+ * Cut the content of tool results that exceed the limit, keeping the beginning
+ * Text, data and prompt-tsx parts are measured as the text sent to the API; images are kept as they are.
+ * @param message Message possibly containing tool results
+ * @param maxTokens Largest tool result kept intact
+ */
+function truncateToolResults(
+	message: vscode.LanguageModelChatMessage,
+	maxTokens: number
+): { message: vscode.LanguageModelChatMessage; count: number } {
+	let count = 0;
+	const content = message.content.map((part) => {
+		if (!(part instanceof vscode.LanguageModelToolResultPart)) {
+			return part;
+		}
+		let text = "";
+		for (const c of part.content) {
+			if (isImageDataPart(c)) {
+				continue;
+			}
+			const block = serializeToolResultPart(c);
+			const isText = c instanceof vscode.LanguageModelTextPart || typeof c === "string";
+			text += !isText && block && text && !text.endsWith("\n") ? `\n${block}` : block;
+		}
+		const tokens = estimateTextTokens(text);
+		if (tokens <= maxTokens) {
+			return part;
+		}
+		count++;
+		let end = Math.floor(text.length * (maxTokens / tokens));
+		// Never split a surrogate pair, which would send half a character to the API
+		const before = text.charCodeAt(end - 1);
+		if (end > 0 && before >= 0xd800 && before <= 0xdbff) {
+			end--;
+		}
+		const kept = text.slice(0, end);
+		const marker = TRUNCATION_MARKER.replace("{0}", String(tokens - estimateTextTokens(kept)));
+		const images = part.content.filter((c) => isImageDataPart(c));
+		return new vscode.LanguageModelToolResultPart(part.callId, [new vscode.LanguageModelTextPart(kept + marker), ...images]);
+	});
+	if (count === 0) {
+		return { message, count };
+	}
+	return { message: { role: message.role, name: message.name, content } as vscode.LanguageModelChatMessage, count };
+}
+
+function sum(values: number[]): number {
+	return values.reduce((a, b) => a + b, 0);
+}
@@ -3,6 +3,7 @@
  * Supports multiple LLM providers with different endpoints
  */
 import * as vscode from "vscode";
+import { log } from "./logger";
 
 /**
  * Configuration for a single provider
@@ -26,6 +27,46 @@ export interface ProviderConfig {
 	defaultContextLength: number;
 	/** Whether this is the default provider */
 	isDefault: boolean;
+	/** Whether this provider was defined in chatglmRouter.customProviders */
+	isCustom?: boolean;
+	/** Request timeouts overriding chatglmRouter.timeouts */
+	timeouts?: TimeoutSettings;
+}
+
+/**
+ * Request timeouts in seconds; 0 disables a limit
+ */
+export interface TimeoutSettings {
+	/** From sending the request until the first response chunk */
+	firstTokenSeconds?: number;
+	/** Longest gap between two response chunks */
+	idleSeconds?: number;
+	/** Whole request including retries */
+	totalSeconds?: number;
+}
+
+/**
+ * A user-defined OpenAI-compatible provider as written in chatglmRouter.customProviders
+ */
+export interface CustomProviderSettings {
+	/** Unique identifier, used as the model ID prefix */
+	id: string;
+	/** Display name */
+	name: string;
+	/** API base URL (the endpoint serving /models and /chat/completions) */
+	baseUrl: string;
+	/** Model family reported to VS Code (default "chatglm") */
+	family?: string;
+	/** Whether models support tool calling (default true) */
+	supportsTools?: boolean;
+	/** Default maximum output tokens (default 8192) */
+	maxOutputTokens?: number;
+	/** Default context length (default 128000) */
+	contextLength?: number;
+	/** Request timeouts for this provider */
+	timeouts?: TimeoutSettings;
+	/** Set to false to keep the entry without using it */
+	enabled?: boolean;
 }
 
 /**
@@ -36,7 +77,7 @@ export const PROVIDERS: Record<string, ProviderConfig> = {
 		id: "chatglm-coding",
 		name: "ChatGLM Coding",
 		baseUrl: "https://open.bigmodel.cn/api/coding/paas/v4",
-		apiKeySecret: "chatglm-router.apiKey.chatglm",
+		apiKeySecret: "chatglm-router.apiKey.chatglm-coding",
 		family: "chatglm",
 		supportsTools: true,
 		defaultMaxTokens: 8192,
@@ -47,7 +88,7 @@ export const PROVIDERS: Record<string, ProviderConfig> = {
 		id: "chatglm-general",
 		name: "ChatGLM General",
 		baseUrl: "https://open.bigmodel.cn/api/paas/v4/",
-		apiKeySecret: "chatglm-router.apiKey.chatglm",
+		apiKeySecret: "chatglm-router.apiKey.chatglm-general",
 		family: "chatglm",
 		supportsTools: true,
 		defaultMaxTokens: 8192,
@@ -56,13 +97,125 @@ export const PROVIDERS: Record<string, ProviderConfig> = {
 	},
 };
 
+/**
+ * Providers loaded from chatglmRouter.customProviders, keyed by ID
+ */
+let customProviders: Record<string, ProviderConfig> = {};
+
+/** Custom provider IDs become model ID prefixes, so ":" is not allowed */
+const CUSTOM_PROVIDER_ID_PATTERN = /^[a-z0-9][a-z0-9._-]*$/i;
+
+/**
+ * Validate custom provider settings and build provider configs
+ * @param raw Value of chatglmRouter.customProviders
+ * @returns Valid providers and a message for every rejected entry
+ */
+export function parseCustomProviders(raw: unknown): { providers: ProviderConfig[]; errors: string[] } {
+	const providers: ProviderConfig[] = [];
+	const errors: string[] = [];
+	if (raw === undefined || raw === null) {
+		return { providers, errors };
+	}
+	if (!Array.isArray(raw)) {
+		return { providers, errors: ["customProviders must be an array"] };
+	}
+
+	const seen = new Set<string>();
+	raw.forEach((entry: unknown, index) => {
+		const label = `customProviders[${index}]`;
+		if (!entry || typeof entry !== "object") {
+			errors.push(`${label}: expected an object`);
+			return;
+		}
+		const e = entry as Partial<CustomProviderSettings>;
+		if (typeof e.id !== "string" || !CUSTOM_PROVIDER_ID_PATTERN.test(e.id)) {
+			errors.push(`${label}: "id" must contain only letters, digits, ".", "_" or "-"`);
+			return;
+		}
+		if (e.id in PROVIDERS || seen.has(e.id)) {
+			errors.push(`${label}: provider ID "${e.id}" is already in use`);
+			return;
+		}
+		if (typeof e.name !== "string" || !e.name.trim()) {
+			errors.push(`${label} (${e.id}): "name" is required`);
+			return;
+		}
+		let baseUrl: URL;
+		try {
+			baseUrl = new URL(String(e.baseUrl));
+		} catch {
+			errors.push(`${label} (${e.id}): "baseUrl" is not a valid URL`);
+			return;
+		}
+		if (baseUrl.protocol !== "https:" && baseUrl.protocol !== "http:") {
+			errors.push(`${label} (${e.id}): "baseUrl" must use http or https`);
+			return;
+		}
+		for (const field of ["maxOutputTokens", "contextLength"] as const) {
+			const value = e[field];
+			if (value !== undefined && !(typeof value === "number" && Number.isInteger(value) && value > 0)) {
+				errors.push(`${label} (${e.id}): "${field}" must be a positive integer`);
+				return;
+			}
+		}
+		const timeouts = e.timeouts;
+		if (timeouts !== undefined) {
+			const valid =
+				timeouts !== null &&
+				typeof timeouts === "object" &&
+				Object.values(timeouts).every((value) => typeof value === "number" && value >= 0);
+			if (!valid) {
+				errors.push(`${label} (${e.id}): "timeouts" values must be non-negative numbers of seconds`);
+				return;
+			}
+		}
+		seen.add(e.id);
+		if (e.enabled === false) {
+			return;
+		}
+
+		const defaultContextLength = e.contextLength ?? 128000;
+		providers.push({
+			id: e.id,
+			name: e.name.trim(),
+			baseUrl: baseUrl.toString().replace(/\/+$/, ""),
+			apiKeySecret: `chatglm-router.apiKey.custom.${e.id}`,
+			family: typeof e.family === "string" && e.family ? e.family : "chatglm",
+			supportsTools: e.supportsTools !== false,
+			defaultMaxTokens: Math.min(e.maxOutputTokens ?? 8192, defaultContextLength - 1),
+			defaultContextLength,
+			isDefault: false,
+			isCustom: true,
+			timeouts,
+		});
+	});
+	return { providers, errors };
+}
+
+/**
+ * Reload custom providers into the registry
+ * @param raw Provider entries; read from chatglmRouter.customProviders when omitted
+ * @returns Messages for rejected entries
+ */
+export function reloadCustomProviders(
+	raw: unknown = vscode.workspace.getConfiguration("chatglmRouter").get<unknown>("customProviders", [])
+): string[] {
+	const { providers, errors } = parseCustomProviders(raw);
+	customProviders = Object.fromEntries(providers.map((p) => [p.id, p]));
+	for (const error of errors) {
+		log.warn(`Ignoring invalid custom provider: ${error}`);
+	}
+	log.info(`Loaded ${providers.length} custom provider(s)`);
+	return errors;
+}
+
 /**
  * Get provider configuration by ID
  * @param id Provider identifier
  * @returns Provider config or undefined
  */
 export function getProviderById(id: string): ProviderConfig | undefined {
-	return PROVIDERS[id];
+	return PROVIDERS[id] ?? customProviders[id];
 }
 
 /**
@@ -75,8 +228,9 @@ export function getProviderById(id: string): ProviderConfig | undefined {
 export function getProviderByModelId(modelId: string): ProviderConfig {
 	const parts = modelId.split(":");
 	// Check if first part is a known provider ID
-	if (parts.length > 0 && parts[0] in PROVIDERS) {
-		return PROVIDERS[parts[0]];
+	const provider = parts.length > 1 ? getProviderById(parts[0]) : undefined;
+	if (provider) {
+		return provider;
 	}
 	// Default to chatglm-coding
 	return PROVIDERS["chatglm-coding"];
@@ -95,18 +249,28 @@ export function getDefaultProvider(): ProviderConfig {
  * @returns Array of provider configs
  */
 export function getToolSupportingProviders(): ProviderConfig[] {
-	return Object.values(PROVIDERS).filter((p) => p.supportsTools);
+	return getAllProviders().filter((p) => p.supportsTools);
 }
 
 /**
- * Custom providers support removed.
- * Previously supported custom providers via settings; feature removed.
+ * Get all providers: built-in first, then custom providers from settings
+ * @returns Array of provider configs
  */
-
 export function getAllProviders(): ProviderConfig[] {
-	return Object.values(PROVIDERS);
+	return [...Object.values(PROVIDERS), ...Object.values(customProviders)];
+}
+
+/**
+ * Get the providers to list models for: built-in providers selected in
+ * chatglmRouter.enabledProviders plus every custom provider
+ * @returns Array of provider configs
+ */
+export function getEnabledProviders(): ProviderConfig[] {
+	const config = vscode.workspace.getConfiguration("chatglmRouter");
+	const enabledProviderIds = config.get<string[]>("enabledProviders", ["chatglm-coding"]);
+	return getAllProviders().filter((p) => p.isCustom || enabledProviderIds.includes(p.id));
 }
 
 export function getProviderByIdAny(id: string): ProviderConfig | undefined {
-	return PROVIDERS[id];
+	return getProviderById(id);
 }
@@ -3,10 +3,126 @@ import { ChatGLMRouterProvider } from "./provider";
 import { StatisticsManager } from "./statistics";
 import { StatisticsViewProvider } from "./statistics-view";
 import { StatisticsStatusBarController } from "./status-bar";
-import { getDefaultProvider, type ProviderConfig } from "./config";
+import { ModelListCache } from "./model-cache";
+import { ApiKeyStore, DEFAULT_PROFILE } from "./api-keys";
+import { PROVIDERS, getAllProviders, reloadCustomProviders, type ProviderConfig } from "./config";
+import { initializeLogging, log } from "./logger";
+
+/**
+ * Load custom providers from settings and report rejected entries
+ */
+function loadCustomProviders(): void {
+	const errors = reloadCustomProviders();
+	if (errors.length > 0) {
+		vscode.window.showWarningMessage(`ChatGLM Router: ignored invalid custom providers. ${errors.join("; ")}`);
+	}
+}
+
+/**
+ * Ask which provider's API key to manage
+ * @param placeHolder Quick pick placeholder
+ * @param apiKeys Key store (the active profile is shown in the title)
+ * @returns Selected provider, or undefined when cancelled
+ */
+async function pickApiKeyTarget(placeHolder: string, apiKeys: ApiKeyStore): Promise<ProviderConfig | undefined> {
+	const items = await Promise.all(
+		getAllProviders().map(async (provider) => ({
+			label: provider.name,
+			description: provider.isCustom ? provider.baseUrl : undefined,
+			detail: await describeKeys(apiKeys, provider),
+			provider,
+		}))
+	);
+	const selected = await vscode.window.showQuickPick(items, {
+		title: `API key profile: ${apiKeys.activeProfile}`,
+		placeHolder,
+	});
+	return selected?.provider;
+}
+
+/**
+ * Summarize the stored keys of a provider for a quick pick
+ * @param apiKeys Key store
+ * @param provider Provider configuration
+ */
+async function describeKeys(apiKeys: ApiKeyStore, provider: ProviderConfig): Promise<string> {
+	const pool = await apiKeys.getPoolStatus(provider);
+	if (pool.total === 0) {
+		return "API key not configured";
+	}
+	if (pool.total === 1) {
+		return "$(key) API key configured";
+	}
+	return `$(key) ${pool.total} API keys, using key ${pool.activeIndex + 1}${pool.coolingDown > 0 ? `, ${pool.coolingDown} cooling down` : ""}`;
+}
+
+/**
+ * Switch, create or delete API key profiles
+ * @param apiKeys Key store
+ */
+async function manageProfiles(apiKeys: ApiKeyStore): Promise<void> {
+	type ProfileItem = vscode.QuickPickItem & { action: "switch" | "add" | "remove"; profile?: string };
+	const active = apiKeys.activeProfile;
+	const items: ProfileItem[] = [
+		...apiKeys.profiles.map((profile) => ({
+			label: `${profile === active ? "$(check)" : "$(account)"} ${profile}`,
+			description: profile === active ? "active" : undefined,
+			action: "switch" as const,
+			profile,
+		})),
+		{ label: "", kind: vscode.QuickPickItemKind.Separator, action: "switch" },
+		{ label: "$(add) New profile...", action: "add" },
+	];
+	if (apiKeys.profiles.length > 1) {
+		items.push({ label: "$(trash) Delete profile...", action: "remove" });
+	}
+
+	const choice = await vscode.window.showQuickPick(items, { placeHolder: "Select the API key profile to use" });
+	if (!choice) {
+		return;
+	}
+
+	if (choice.action === "switch" && choice.profile) {
+		await apiKeys.setActiveProfile(choice.profile);
+		vscode.window.showInformationMessage(`ChatGLM Router now uses the "${choice.profile}" API key profile.`);
+	} else if (choice.action === "add") {
+		const name = await vscode.window.showInputBox({
+			title: "New API key profile",
+			prompt: "Profile name, e.g. personal or work",
+			ignoreFocusOut: true,
+			validateInput: (value) => ApiKeyStore.validateProfileName(value.trim(), apiKeys.profiles),
+		});
+		if (!name?.trim()) {
+			return;
+		}
+		await apiKeys.addProfile(name.trim());
+		await apiKeys.setActiveProfile(name.trim());
+		vscode.window.showInformationMessage(
+			`Profile "${name.trim()}" created and activated. Run "Manage ChatGLM Router" to add its API keys.`
+		);
+	} else if (choice.action === "remove") {
+		const profile = await vscode.window.showQuickPick(
+			apiKeys.profiles.filter((p) => p !== DEFAULT_PROFILE),
+			{ placeHolder: "Select the profile to delete" }
+		);
+		if (!profile) {
+			return;
+		}
+		const confirmed = await vscode.window.showWarningMessage(
+			`Delete the "${profile}" profile and its stored API keys?`,
+			{ modal: true },
+			"Delete"
+		);
+		if (confirmed === "Delete") {
+			await apiKeys.removeProfile(profile, getAllProviders());
+			vscode.window.showInformationMessage(`Profile "${profile}" deleted.`);
+		}
+	}
+}
 
 export function activate(context: vscode.ExtensionContext) {
-	console.log("[ChatGLM Router] Extension is activating...");
+	const logChannel = initializeLogging(context);
+	log.info("Extension is activating...");
 
 	// Build a descriptive User-Agent to help quantify API usage
 	const ext = vscode.extensions.getExtension("OrientLuna.chatglm-router-vscode");
@@ -14,16 +130,21 @@ export function activate(context: vscode.ExtensionContext) {
 	const vscodeVersion = vscode.version;
 	const ua = `chatglm-router-vscode/${extVersion} VSCode/${vscodeVersion}`;
 
-	console.log(`[ChatGLM Router] Version: ${extVersion}, VS Code: ${vscodeVersion}`);
+	log.info(`Version: ${extVersion}, VS Code: ${vscodeVersion}`);
 
 	// Initialize statistics manager
 	const statsManager = new StatisticsManager(context);
 	const statsView = new StatisticsViewProvider(statsManager);
 
+	// Per-provider API keys, grouped into named profiles
+	const apiKeys = new ApiKeyStore(context.secrets, context.globalState);
+	context.subscriptions.push(apiKeys);
+
 	// Initialize status bar controller
 	const statusBarController = new StatisticsStatusBarController(
 		context,
-		statsManager
+		statsManager,
+		apiKeys
 	);
 	statusBarController.startAutoRefresh();
 	context.subscriptions.push(statusBarController);
@@ -35,54 +156,119 @@ export function activate(context: vscode.ExtensionContext) {
 		})
 	);
 
-	// Create the router provider
-	const provider = new ChatGLMRouterProvider(context.secrets, statsManager, ua);
+	// Register user-defined OpenAI-compatible providers before the model list is requested
+	loadCustomProviders();
+
+	// Create the router provider, serving the last known model lists from globalState
+	const modelCache = new ModelListCache(context.globalState);
+	const provider = new ChatGLMRouterProvider(context.secrets, statsManager, ua, modelCache, apiKeys);
+	context.subscriptions.push(provider);
+
+	// Keys saved before per-provider keys existed are copied to both ChatGLM endpoints
+	apiKeys
+		.migrateLegacyKey(Object.values(PROVIDERS))
+		.then(() => provider.notifyModelInformationChanged())
+		.catch((err) => log.error("Failed to migrate API key:", err));
+
+	// Another profile may have keys for different providers
+	context.subscriptions.push(
+		apiKeys.onDidChangeActiveProfile(() => {
+			provider.notifyModelInformationChanged();
+			statusBarController.scheduleUpdate();
+		}),
+		// The tooltip shows which key of a pool is in use
+		apiKeys.onDidChangeActiveKey(() => statusBarController.scheduleUpdate())
+	);
+
+	// Model limits and capabilities depend on settings; let the host re-read them
+	context.subscriptions.push(
+		vscode.workspace.onDidChangeConfiguration((e) => {
+			if (e.affectsConfiguration("chatglmRouter.customProviders")) {
+				loadCustomProviders();
+			}
+			if (
+				e.affectsConfiguration("chatglmRouter.modelOverrides") ||
+				e.affectsConfiguration("chatglmRouter.customProviders") ||
+				e.affectsConfiguration("chatglmRouter.enabledProviders")
+			) {
+				provider.notifyModelInformationChanged();
+			}
+		})
+	);
 
 	// Register the ChatGLM Router provider under the vendor id used in package.json
 	vscode.lm.registerLanguageModelChatProvider("chatglm-router", provider);
-	console.log("[ChatGLM Router] Provider registered successfully with vendor ID: chatglm-router");
+	log.info("Provider registered successfully with vendor ID: chatglm-router");
 
 	// Management command to configure API keys
 	context.subscriptions.push(
 		vscode.commands.registerCommand("chatglmRouter.manage", async () => {
-			// ChatGLM management (custom providers support removed)
-			const secretKey = "chatglm-router.apiKey.chatglm";
-			const providerName = "ChatGLM";
-
-			console.log(`[ChatGLM Router] Manage command invoked`);
+			log.info(`Manage command invoked`);
 
 			// Present a quick pick to match the host's expected management flow
-			const selected = await vscode.window.showQuickPick(["ChatGLM (Coding & General)"], {
-				placeHolder: "Select provider to manage API key",
-			});
+			const selected = await pickApiKeyTarget("Select provider to manage API key", apiKeys);
 			if (!selected) {
 				return; // User cancelled
 			}
+			const providerName = selected.name;
 
-			console.log(`[ChatGLM Router] Managing API key for ${providerName}, using key: ${secretKey}`);
+			log.info(`Managing API key for ${providerName}, profile: ${apiKeys.activeProfile}`);
 
-			const existing = await context.secrets.get(secretKey);
+			const existing = await apiKeys.getKeys(selected);
 			const apiKey = await vscode.window.showInputBox({
 				title: `${providerName} API Key`,
-				prompt: existing ? `Update your ${providerName} API key` : `Enter your ${providerName} API key`,
+				prompt: `${existing.length > 0 ? "Update" : "Enter"} your ${providerName} API key. Separate multiple keys with commas to fail over between them.`,
 				ignoreFocusOut: true,
 				password: true,
-				value: existing ?? "",
+				value: existing.join(","),
 			});
 			if (apiKey === undefined) {
 				return; // user canceled
 			}
-			if (!apiKey.trim()) {
-				await context.secrets.delete(secretKey);
+			const keys = apiKey.split(/[\s,]+/).filter((k) => k);
+			await apiKeys.setKeys(selected, keys);
+			if (keys.length === 0) {
 				vscode.window.showInformationMessage(`${providerName} API key cleared.`);
-				return;
+			} else {
+				vscode.window.showInformationMessage(
+					keys.length > 1 ? `${keys.length} ${providerName} API keys saved.` : `${providerName} API key saved.`
+				);
+				log.info(`${keys.length} API key(s) saved for ${providerName}`);
 			}
-			await context.secrets.store(secretKey, apiKey.trim());
-			vscode.window.showInformationMessage(`${providerName} API key saved.`);
-			console.log(`[ChatGLM Router] API key saved for ${providerName}`);
+			provider.notifyModelInformationChanged();
 		})
 		);
 
+	// Switch between named API key profiles
+	context.subscriptions.push(
+		vscode.commands.registerCommand("chatglmRouter.switchProfile", async () => {
+			try {
+				await manageProfiles(apiKeys);
+			} catch (err) {
+				log.error("Failed to update API key profiles:", err);
+				vscode.window.showErrorMessage(`Failed to update API key profiles. ${err instanceof Error ? err.message : String(err)}`);
+			}
+		})
+	);
+
+	// Refresh model list command (bypasses the cache TTL)
+	context.subscriptions.push(
+		vscode.commands.registerCommand("chatglmRouter.refreshModels", async () => {
+			try {
+				const count = await vscode.window.withProgress(
+					{ location: vscode.ProgressLocation.Notification, title: "Refreshing ChatGLM model list..." },
+					() => provider.refreshModels()
+				);
+				vscode.window.showInformationMessage(`ChatGLM model list refreshed (${count} models).`);
+			} catch (err) {
+				log.error("Failed to refresh model list:", err);
+				vscode.window.showErrorMessage(
+					`Failed to refresh model list; cached models are still available. ${err instanceof Error ? err.message : String(err)}`
+				);
+			}
+		})
+	);
+
 	// Show statistics command
 	context.subscriptions.push(
 		vscode.commands.registerCommand("chatglmRouter.showStatistics", () => {
@@ -104,34 +290,45 @@ export function activate(context: vscode.ExtensionContext) {
 		})
 	);
 
+	// Command to show the diagnostics log
+	context.subscriptions.push(
+		vscode.commands.registerCommand("chatglmRouter.showLog", () => {
+			logChannel.show(true);
+		})
+	);
+
 	// Command to clear ChatGLM API key
 	context.subscriptions.push(
 		vscode.commands.registerCommand("chatglmRouter.clearApiKey", async () => {
-			const secretKey = "chatglm-router.apiKey.chatglm";
-			const providerName = "ChatGLM";
+			const selected = await pickApiKeyTarget("Select provider to clear API key", apiKeys);
+			if (!selected) {
+				return;
+			}
+			const providerName = selected.name;
 
 			try {
-				const existing = await context.secrets.get(secretKey);
+				const existing = await apiKeys.get(selected);
 				if (!existing) {
-					vscode.window.showInformationMessage("No ChatGLM API key found to delete.");
+					vscode.window.showInformationMessage(`No ${providerName} API key found to delete.`);
 					return;
 				}
 
 				const choice = await vscode.window.showWarningMessage(
-					"Do you want to delete your ChatGLM API key? You will need to re-enter it to use the extension.",
+					`Do you want to delete your ${providerName} API key? You will need to re-enter it to use the extension.`,
 					{ modal: true },
 					"Delete",
 					"Cancel"
 				);
 
 				if (choice === "Delete") {
-					await context.secrets.delete(secretKey);
-					console.log(`[ChatGLM Router] Deleted secret ${secretKey}`);
+					await apiKeys.delete(selected);
+					log.info(`Deleted API key for ${providerName} (profile: ${apiKeys.activeProfile})`);
+					provider.notifyModelInformationChanged();
 					vscode.window.showInformationMessage(`${providerName} API key deleted.`);
 				}
 			} catch (err) {
-				console.error("Failed to delete API key:", err);
-				vscode.window.showErrorMessage("Failed to clear API key. See console for details.");
+				log.error("Failed to delete API key:", err);
+				vscode.window.showErrorMessage("Failed to clear API key. See the ChatGLM Router log for details.");
 			}
 		})
 	);
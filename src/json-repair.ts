@@ -0,0 +1,155 @@
+/**
+ * Tolerant JSON parsing for tool-call arguments
+ * GLM occasionally ends a tool call with slightly broken JSON: trailing commas, braces left
+ * open when the output hit max_tokens, single-quoted strings or Python literals. These are
+ * fixed with a single pass over the text before giving up.
+ */
+
+import { tryParseJSONObject } from "./utils";
+
+/**
+ * Result of a tolerant parse
+ */
+export type RepairResult =
+	| { ok: true; value: Record<string, unknown>; repaired: boolean }
+	| { ok: false };
+
+const PYTHON_LITERALS: Record<string, string> = { True: "true", False: "false", None: "null" };
+
+/**
+ * Parse a JSON object, repairing common defects when strict parsing fails
+ * @param text Raw tool-call arguments
+ * @returns The object and whether it needed repair, or ok:false when it cannot be recovered
+ */
+export function parseJSONObjectTolerant(text: string): RepairResult {
+	const strict = tryParseJSONObject(text);
+	if (strict.ok) {
+		return { ok: true, value: strict.value, repaired: false };
+	}
+	const repaired = repairJSON(text);
+	if (repaired === undefined) {
+		return { ok: false };
+	}
+	const parsed = tryParseJSONObject(repaired);
+	return parsed.ok ? { ok: true, value: parsed.value, repaired: true } : { ok: false };
+}
+
+/**
+ * Rewrite almost-JSON into JSON
+ * - strips Markdown code fences and text around the object
+ * - converts single-quoted strings and quotes bare object keys
+ * - maps Python's True/False/None to JSON literals
+ * - drops trailing commas and an unfinished last member, including one cut off inside a string,
+ *   whose end cannot be known
+ * - closes open arrays and objects
+ * @param text Raw text
+ * @returns Candidate JSON, or undefined when there is no object to repair
+ */
+export function repairJSON(text: string): string | undefined {
+	const start = text.indexOf("{");
+	if (start === -1) {
+		return undefined;
+	}
+	const source = text.slice(start).replace(/\s*```\s*$/, "");
+
+	let out = "";
+	const stack: ("{" | "[")[] = [];
+	let i = 0;
+	while (i < source.length && (stack.length > 0 || out.length === 0)) {
+		const ch = source[i];
+		if (ch === '"' || ch === "'") {
+			const { value, end, closed } = readString(source, i);
+			// A string without its closing quote is left for dropIncompleteTail to remove
+			if (closed) {
+				out += JSON.stringify(value);
+			}
+			i = end;
+			continue;
+		}
+		if (ch === "{" || ch === "[") {
+			stack.push(ch);
+			out += ch;
+		} else if (ch === "}" || ch === "]") {
+			out = trimTrailingComma(out);
+			const open = stack.pop();
+			out += open === "[" ? "]" : "}";
+		} else if (/[A-Za-z_$]/.test(ch)) {
+			const word = /^[A-Za-z_$][\w$]*/.exec(source.slice(i))![0];
+			i += word.length;
+			if (stack[stack.length - 1] === "{" && /^\s*:/.test(source.slice(i))) {
+				out += JSON.stringify(word);
+			} else {
+				out += PYTHON_LITERALS[word] ?? word;
+			}
+			continue;
+		} else {
+			out += ch;
+		}
+		i++;
+	}
+
+	// Truncated output: drop an unfinished member, then close what is still open
+	if (stack.length > 0) {
+		out = dropIncompleteTail(out);
+		while (stack.length > 0) {
+			out = trimTrailingComma(out);
+			out += stack.pop() === "[" ? "]" : "}";
+		}
+	}
+	return out;
+}
+
+/**
+ * Read a single- or double-quoted string, tolerating a missing closing quote
+ * @param source Text
+ * @param start Index of the opening quote
+ * @returns The decoded string, the index after it and whether the closing quote was found
+ */
+function readString(source: string, start: number): { value: string; end: number; closed: boolean } {
+	const quote = source[start];
+	let value = "";
+	let i = start + 1;
+	while (i < source.length) {
+		const ch = source[i];
+		if (ch === "\\" && i + 1 < source.length) {
+			const escaped = source.slice(i, i + 2);
+			if (escaped === "\\'") {
+				value += "'";
+			} else {
+				try {
+					value += JSON.parse(`"${escaped === "\\u" ? source.slice(i, i + 6) : escaped}"`) as string;
+					i += escaped === "\\u" ? 4 : 0;
+				} catch {
+					value += source[i + 1];
+				}
+			}
+			i += 2;
+			continue;
+		}
+		if (ch === quote) {
+			return { value, end: i + 1, closed: true };
+		}
+		value += ch;
+		i++;
+	}
+	return { value, end: i, closed: false };
+}
+
+function trimTrailingComma(out: string): string {
+	return out.replace(/,\s*$/, "");
+}
+
+/**
+ * Remove a member cut off mid-way, e.g. `{"a": 1, "b":` or `{"a": 1, "b"`; a value string cut
+ * off before its closing quote has already been left out, leaving `{"a": 1, "b":`
+ * @param out Repaired text so far
+ */
+function dropIncompleteTail(out: string): string {
+	let result = out.replace(/\s+$/, "");
+	// A literal or number cut in half, e.g. `tr`, `-` or `1.`
+	result = result.replace(/([:,[])\s*(?:-|t|tr|tru|f|fa|fal|fals|n|nu|nul)$/, "$1");
+	result = result.replace(/(\d)[.eE][+-]?$/, "$1");
+	// A key without a value
+	result = result.replace(/([{,])\s*"(?:[^"\\]|\\.)*"\s*:?$/, "$1");
+	return trimTrailingComma(result);
+}
@@ -0,0 +1,183 @@
+/**
+ * Diagnostics log for ChatGLM Router
+ * Writes to the "ChatGLM Router" output channel, filtered by `chatglmRouter.logLevel`. Entries are
+ * appended as plain lines with their own level prefix, since a log output channel would drop debug
+ * and trace entries at its default Info level whatever the setting says.
+ * Before the channel exists (and in tests) entries go to the console instead.
+ * Authorization headers and anything that looks like an API key are always redacted.
+ */
+
+import * as vscode from "vscode";
+
+/**
+ * Verbosity of the log; each level includes the ones before it
+ */
+export type LogLevel = "off" | "error" | "warn" | "info" | "debug" | "trace";
+
+const LEVEL_ORDER: Record<LogLevel, number> = { off: 0, error: 1, warn: 2, info: 3, debug: 4, trace: 5 };
+
+/** Replacement for redacted values */
+const REDACTED = "<redacted>";
+
+/** Object keys whose values are never logged */
+const SECRET_KEYS = /^(authorization|api[-_]?key|x-api-key|token|secret)$/i;
+
+/**
+ * Patterns of API-key-looking strings
+ * - Bearer tokens
+ * - Zhipu keys: 32 hex characters, a dot and a 16 character secret
+ * - OpenAI-style `sk-...` keys
+ */
+const SECRET_PATTERNS: RegExp[] = [
+	/\b(Bearer\s+)[^\s"',]+/gi,
+	/\b[0-9a-f]{32}\.[A-Za-z0-9]{16}\b/g,
+	/\bsk-[A-Za-z0-9_-]{16,}\b/g,
+];
+
+/**
+ * Read the configured log level
+ */
+export function getLogLevel(): LogLevel {
+	const value = vscode.workspace.getConfiguration("chatglmRouter").get<string>("logLevel", "info");
+	return value in LEVEL_ORDER ? (value as LogLevel) : "info";
+}
+
+/**
+ * Leveled, redacting logger
+ */
+export class Logger {
+	private channel: vscode.OutputChannel | undefined;
+	private level: LogLevel = "info";
+	/** Keys seen at runtime; redacted even when they match no pattern */
+	private readonly secrets = new Set<string>();
+
+	/**
+	 * Send entries to an output channel instead of the console
+	 * @param channel Output channel, or undefined to go back to the console
+	 */
+	attach(channel: vscode.OutputChannel | undefined): void {
+		this.channel = channel;
+	}
+
+	setLevel(level: LogLevel): void {
+		this.level = level;
+	}
+
+	/**
+	 * Whether entries of a level are currently written; use to skip building expensive payloads
+	 * @param level Entry level
+	 */
+	isEnabled(level: Exclude<LogLevel, "off">): boolean {
+		return LEVEL_ORDER[level] <= LEVEL_ORDER[this.level];
+	}
+
+	/**
+	 * Redact a known secret wherever it appears in later entries
+	 * @param value API key or similar secret
+	 */
+	addSecret(value: string | undefined): void {
+		if (value && value.length >= 8) {
+			this.secrets.add(value);
+		}
+	}
+
+	error(message: string, ...args: unknown[]): void {
+		this.write("error", message, args);
+	}
+
+	warn(message: string, ...args: unknown[]): void {
+		this.write("warn", message, args);
+	}
+
+	info(message: string, ...args: unknown[]): void {
+		this.write("info", message, args);
+	}
+
+	debug(message: string, ...args: unknown[]): void {
+		this.write("debug", message, args);
+	}
+
+	trace(message: string, ...args: unknown[]): void {
+		this.write("trace", message, args);
+	}
+
+	/**
+	 * Remove secrets from a string
+	 * @param text Text that may contain keys or Authorization headers
+	 */
+	redact(text: string): string {
+		let result = text;
+		for (const secret of this.secrets) {
+			result = result.split(secret).join(REDACTED);
+		}
+		for (const pattern of SECRET_PATTERNS) {
+			result = result.replace(pattern, (match, bearer?: string) =>
+				typeof bearer === "string" ? `${bearer}${REDACTED}` : REDACTED
+			);
+		}
+		return result;
+	}
+
+	/**
+	 * Copy a value for logging with secrets removed
+	 * @param value Any log argument; errors become `{name, message}`
+	 */
+	sanitize(value: unknown): unknown {
+		if (typeof value === "string") {
+			return this.redact(value);
+		}
+		if (value instanceof Error) {
+			return { name: value.name, message: this.redact(value.message) };
+		}
+		if (Array.isArray(value)) {
+			return value.map((item) => this.sanitize(item));
+		}
+		if (value && typeof value === "object") {
+			const result: Record<string, unknown> = {};
+			for (const [key, item] of Object.entries(value)) {
+				result[key] = SECRET_KEYS.test(key) ? REDACTED : this.sanitize(item);
+			}
+			return result;
+		}
+		return value;
+	}
+
+	private write(level: Exclude<LogLevel, "off">, message: string, args: unknown[]): void {
+		if (!this.isEnabled(level)) {
+			return;
+		}
+		const text = this.redact(message);
+		const payload = args.map((arg) => this.sanitize(arg));
+		if (this.channel) {
+			const details = payload.map((arg) => (typeof arg === "string" ? arg : JSON.stringify(arg)));
+			this.channel.appendLine(`${new Date().toISOString()} [${level}] ${[text, ...details].join(" ")}`);
+			return;
+		}
+		const consoleMethod = level === "trace" || level === "debug" ? "debug" : level === "info" ? "log" : level;
+		console[consoleMethod](`[ChatGLM Router] ${text}`, ...payload);
+	}
+}
+
+/** Shared logger */
+export const log = new Logger();
+
+/**
+ * Create the output channel and follow the `chatglmRouter.logLevel` setting
+ * @param context Extension context that owns the channel and listener
+ */
+export function initializeLogging(context: vscode.ExtensionContext): vscode.OutputChannel {
+	const channel = vscode.window.createOutputChannel("ChatGLM Router", "log");
+	log.attach(channel);
+	log.setLevel(getLogLevel());
+	context.subscriptions.push(
+		channel,
+		{ dispose: () => log.attach(undefined) },
+		vscode.workspace.onDidChangeConfiguration((e) => {
+			if (e.affectsConfiguration("chatglmRouter.logLevel")) {
+				log.setLevel(getLogLevel());
+				log.info(`Log level set to ${getLogLevel()}`);
+			}
+		})
+	);
+	return channel;
+}
@@ -0,0 +1,93 @@
+/**
+ * Persistent model list cache for ChatGLM Router
+ * Keeps the last successful /models response per provider, endpoint and key profile so the
+ * model picker can be populated immediately on startup and when the network is unavailable
+ */
+
+import * as vscode from "vscode";
+import type { HFModelItem } from "./types";
+
+/**
+ * Cached model list of a single provider
+ */
+export interface CachedModelList {
+	models: HFModelItem[];
+	fetchedAt: number; // Timestamp
+}
+
+/**
+ * Stored cache structure, keyed by modelCacheKey()
+ */
+type ModelCacheData = Record<string, CachedModelList>;
+
+/**
+ * Cache key of a provider's model list
+ * The endpoint and key profile are part of the key, so a list fetched from another baseUrl
+ * or with another profile's key is never served after switching.
+ * @param providerId Provider identifier
+ * @param baseUrl Provider endpoint
+ * @param profile API key profile
+ */
+export function modelCacheKey(providerId: string, baseUrl: string, profile: string): string {
+	return `${providerId}|${profile}|${baseUrl}`;
+}
+
+/**
+ * Read the cache TTL from settings
+ * @returns TTL in milliseconds
+ */
+export function getModelCacheTtlMs(): number {
+	const config = vscode.workspace.getConfiguration("chatglmRouter.modelCache");
+	const minutes = config.get<number>("ttlMinutes", 60);
+	return Math.max(0, minutes) * 60 * 1000;
+}
+
+/**
+ * Model list cache persisted in globalState
+ */
+export class ModelListCache {
+	private static readonly STORAGE_KEY = "chatglm-router.modelCache";
+
+	constructor(private readonly globalState: vscode.Memento) {}
+
+	/**
+	 * Get a cached model list
+	 * @param key Key from modelCacheKey()
+	 */
+	get(key: string): CachedModelList | undefined {
+		const data = this.globalState.get<ModelCacheData>(ModelListCache.STORAGE_KEY);
+		const entry = data?.[key];
+		if (!entry || !Array.isArray(entry.models)) {
+			return undefined;
+		}
+		return entry;
+	}
+
+	/**
+	 * Store a freshly fetched model list
+	 * @param key Key from modelCacheKey()
+	 * @param models Models returned by the API
+	 */
+	async set(key: string, models: HFModelItem[]): Promise<void> {
+		const data = { ...(this.globalState.get<ModelCacheData>(ModelListCache.STORAGE_KEY) ?? {}) };
+		data[key] = { models, fetchedAt: Date.now() };
+		await this.globalState.update(ModelListCache.STORAGE_KEY, data);
+	}
+
+	/**
+	 * Remove all cached model lists
+	 */
+	async clear(): Promise<void> {
+		await this.globalState.update(ModelListCache.STORAGE_KEY, undefined);
+	}
+
+	/**
+	 * Whether a cached entry is still within its TTL
+	 * @param entry Cached model list
+	 * @param ttlMs TTL in milliseconds
+	 * @param now Current time
+	 */
+	static isFresh(entry: CachedModelList, ttlMs: number, now: number = Date.now()): boolean {
+		return now - entry.fetchedAt < ttlMs;
+	}
+}
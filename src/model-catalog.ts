@@ -0,0 +1,270 @@
+/**
+ * Model capability catalog for ChatGLM Router
+ * Resolves context length, output limit, tool/vision support and display names per model,
+ * combining built-in entries, data supplied by the /models API and user overrides from settings
+ */
+
+import * as vscode from "vscode";
+import type { HFModelItem } from "./types";
+import type { ProviderConfig } from "./config";
+import { log } from "./logger";
+
+/**
+ * Metadata for models matched by ID or pattern
+ */
+export interface ModelMetadata {
+	/** Model ID, or a pattern where "*" matches any characters (case-insensitive) */
+	match: string;
+	/** Name shown in the model picker */
+	displayName?: string;
+	/** Total context window (input + output) */
+	contextLength?: number;
+	/** Maximum tokens the model can generate */
+	maxOutputTokens?: number;
+	/** Whether the model supports function/tool calling */
+	toolCalling?: boolean;
+	/** Whether the model accepts image input */
+	imageInput?: boolean;
+	/** Deep thinking mode sent as `thinking: { type }` (GLM-4.5 and later); omitted when unset */
+	thinking?: ThinkingMode;
+	/** Whether the model accepts the `thinking` parameter; it is never sent to other models */
+	thinkingSwitch?: boolean;
+	/** Whether the model can stream tool-call arguments (`tool_stream`) */
+	toolStream?: boolean;
+	/** Whether a custom provider's model accepts Zhipu's `web_search` tool; Zhipu endpoints always do */
+	webSearch?: boolean;
+}
+
+/** Boolean capability flags of ModelMetadata */
+export type ModelCapability = "thinkingSwitch" | "toolStream" | "webSearch";
+
+/** GLM deep thinking switch */
+export type ThinkingMode = "enabled" | "disabled";
+
+/**
+ * Fully resolved metadata for a single model
+ */
+export interface ResolvedModelMetadata {
+	displayName: string;
+	contextLength: number;
+	maxInputTokens: number;
+	maxOutputTokens: number;
+	toolCalling: boolean;
+	imageInput: boolean;
+}
+
+/**
+ * Built-in metadata for known GLM models (from the Zhipu model documentation)
+ */
+export const BUILTIN_MODEL_METADATA: ModelMetadata[] = [
+	{ match: "glm-4.7", displayName: "GLM-4.7", contextLength: 200000, maxOutputTokens: 131072, thinkingSwitch: true, toolStream: true },
+	{ match: "glm-4.6", displayName: "GLM-4.6", contextLength: 200000, maxOutputTokens: 131072, thinkingSwitch: true, toolStream: true },
+	{ match: "glm-4.6v*", displayName: "GLM-4.6V", contextLength: 128000, maxOutputTokens: 32768, imageInput: true, thinkingSwitch: true, toolStream: true },
+	{ match: "glm-4.5", displayName: "GLM-4.5", contextLength: 128000, maxOutputTokens: 98304, thinkingSwitch: true },
+	{ match: "glm-4.5-air", displayName: "GLM-4.5-Air", contextLength: 128000, maxOutputTokens: 98304, thinkingSwitch: true },
+	{ match: "glm-4.5-x", displayName: "GLM-4.5-X", contextLength: 128000, maxOutputTokens: 98304, thinkingSwitch: true },
+	{ match: "glm-4.5-airx", displayName: "GLM-4.5-AirX", contextLength: 128000, maxOutputTokens: 98304, thinkingSwitch: true },
+	{ match: "glm-4.5-flash", displayName: "GLM-4.5-Flash", contextLength: 128000, maxOutputTokens: 98304, thinkingSwitch: true },
+	{ match: "glm-4.5v", displayName: "GLM-4.5V", contextLength: 64000, maxOutputTokens: 16384, imageInput: true, thinkingSwitch: true },
+	{ match: "glm-4.1v-thinking*", contextLength: 64000, maxOutputTokens: 16384, imageInput: true, toolCalling: false },
+	{ match: "glm-4-plus", displayName: "GLM-4-Plus", contextLength: 128000, maxOutputTokens: 4096 },
+	{ match: "glm-4-air*", contextLength: 128000, maxOutputTokens: 16384 },
+	{ match: "glm-4-long", displayName: "GLM-4-Long", contextLength: 1000000, maxOutputTokens: 4096 },
+	{ match: "glm-4-flash*", contextLength: 128000, maxOutputTokens: 16384 },
+	{ match: "glm-4v-flash", displayName: "GLM-4V-Flash", contextLength: 8192, maxOutputTokens: 1024, imageInput: true, toolCalling: false },
+	{ match: "glm-4v*", contextLength: 16384, maxOutputTokens: 8192, imageInput: true, toolCalling: false },
+	{ match: "glm-z1-*", contextLength: 128000, maxOutputTokens: 32768 },
+];
+
+/**
+ * Read user overrides from settings, dropping malformed entries
+ */
+export function getModelOverrides(): ModelMetadata[] {
+	const config = vscode.workspace.getConfiguration("chatglmRouter");
+	const raw = config.get<unknown[]>("modelOverrides", []);
+	if (!Array.isArray(raw)) {
+		return [];
+	}
+	return raw.filter((entry): entry is ModelMetadata => {
+		const valid = !!entry && typeof entry === "object" && typeof (entry as ModelMetadata).match === "string";
+		if (!valid) {
+			log.warn("Ignoring invalid modelOverrides entry", entry);
+		}
+		return valid;
+	});
+}
+
+/**
+ * Test a model ID against an ID or "*" pattern (case-insensitive)
+ * @param pattern Exact ID or pattern
+ * @param modelId Model ID to test
+ */
+export function matchesModelPattern(pattern: string, modelId: string): boolean {
+	const p = pattern.toLowerCase();
+	const id = modelId.toLowerCase();
+	if (!p.includes("*")) {
+		return p === id;
+	}
+	const regex = new RegExp(`^${p.split("*").map((s) => s.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*")}$`);
+	return regex.test(id);
+}
+
+/**
+ * Rank a model pattern for "most specific wins": exact IDs outrank any pattern, and among
+ * patterns more literal characters are more specific
+ * @param pattern Exact ID or "*" pattern
+ */
+export function modelPatternSpecificity(pattern: string): number {
+	return pattern.includes("*") ? pattern.replace(/\*/g, "").length : Number.MAX_SAFE_INTEGER;
+}
+
+/**
+ * Find the best matching entry: an exact ID match wins, otherwise the most specific pattern
+ * @param entries Candidate entries
+ * @param modelId Model ID
+ */
+export function findModelMetadata(entries: readonly ModelMetadata[], modelId: string): ModelMetadata | undefined {
+	let best: ModelMetadata | undefined;
+	let bestScore = -1;
+	for (const entry of entries) {
+		if (!matchesModelPattern(entry.match, modelId)) {
+			continue;
+		}
+		const score = modelPatternSpecificity(entry.match);
+		if (score > bestScore) {
+			best = entry;
+			bestScore = score;
+		}
+	}
+	return best;
+}
+
+/**
+ * Extract metadata the /models API supplied for a model (OpenAI/HF-style fields)
+ * @param model Model item from the API
+ */
+function metadataFromApi(model: HFModelItem): Omit<ModelMetadata, "match"> {
+	const out: Omit<ModelMetadata, "match"> = {};
+	const contextLengths = (model.providers ?? [])
+		.map((p) => p.context_length)
+		.filter((n): n is number => typeof n === "number" && n > 0);
+	if (contextLengths.length > 0) {
+		out.contextLength = Math.max(...contextLengths);
+	}
+	const toolSupport = (model.providers ?? []).map((p) => p.supports_tools).filter((b): b is boolean => typeof b === "boolean");
+	if (toolSupport.length > 0) {
+		out.toolCalling = toolSupport.some((b) => b);
+	}
+	const modalities = model.architecture?.input_modalities;
+	if (Array.isArray(modalities)) {
+		out.imageInput = modalities.includes("image");
+	}
+	return out;
+}
+
+/**
+ * Resolve metadata for a model.
+ * Precedence (lowest to highest): provider defaults, built-in catalog, API-supplied fields, user overrides.
+ * @param model Model item (from the API, cache or static list)
+ * @param provider Provider configuration
+ * @param overrides User overrides, usually from getModelOverrides()
+ */
+export function resolveModelMetadata(
+	model: HFModelItem,
+	provider: ProviderConfig,
+	overrides: readonly ModelMetadata[] = []
+): ResolvedModelMetadata {
+	const merged: Omit<ModelMetadata, "match"> = {
+		contextLength: provider.defaultContextLength,
+		maxOutputTokens: provider.defaultMaxTokens,
+		toolCalling: true,
+		imageInput: false,
+	};
+	for (const layer of [findModelMetadata(BUILTIN_MODEL_METADATA, model.id), metadataFromApi(model), findModelMetadata(overrides, model.id)]) {
+		if (!layer) {
+			continue;
+		}
+		for (const [key, value] of Object.entries(layer)) {
+			if (key !== "match" && key !== "thinking" && key !== "thinkingSwitch" && key !== "toolStream" && key !== "webSearch" && value !== undefined) {
+				(merged as Record<string, unknown>)[key] = value;
+			}
+		}
+	}
+
+	const contextLength = Math.max(2, merged.contextLength ?? provider.defaultContextLength);
+	const maxOutputTokens = Math.max(1, Math.min(merged.maxOutputTokens ?? provider.defaultMaxTokens, contextLength - 1));
+	// Only reserve the provider's usual output budget for the response, so models with very large
+	// output limits (e.g. 128K on GLM-4.6) don't shrink the advertised prompt window
+	const reservedOutput = Math.min(maxOutputTokens, provider.defaultMaxTokens);
+
+	return {
+		displayName: merged.displayName ?? model.id,
+		contextLength,
+		maxInputTokens: Math.max(1, contextLength - reservedOutput),
+		maxOutputTokens,
+		toolCalling: provider.supportsTools && merged.toolCalling !== false,
+		imageInput: merged.imageInput === true,
+	};
+}
+
+/**
+ * Normalize a thinking switch given as "enabled"/"disabled", a boolean or `{ type }`
+ * @param value Raw value from modelOptions or settings
+ */
+function parseThinkingMode(value: unknown): ThinkingMode | undefined {
+	if (value === true || value === "enabled") {
+		return "enabled";
+	}
+	if (value === false || value === "disabled") {
+		return "disabled";
+	}
+	if (value && typeof value === "object") {
+		return parseThinkingMode((value as Record<string, unknown>).type);
+	}
+	return undefined;
+}
+
+/**
+ * Read a capability flag from the most specific user override that sets it, else the built-in catalog
+ * @param modelId Model ID without provider prefix
+ * @param key Flag name
+ * @param overrides User overrides, usually from getModelOverrides()
+ */
+export function hasModelCapability(
+	modelId: string,
+	key: ModelCapability,
+	overrides: readonly ModelMetadata[] = getModelOverrides()
+): boolean {
+	const override = findModelMetadata(overrides.filter((o) => o[key] !== undefined), modelId);
+	return (override ?? findModelMetadata(BUILTIN_MODEL_METADATA, modelId))?.[key] === true;
+}
+
+/**
+ * Decide the `thinking` request parameter for a model.
+ * Precedence: request modelOptions.thinking, then a matching modelOverrides entry, then the
+ * chatglmRouter.thinking setting ("auto" leaves the parameter out and uses the model default).
+ * Models without the thinkingSwitch capability never get the parameter.
+ * @param modelId Model ID without provider prefix
+ * @param modelOptions Request model options
+ * @param overrides User overrides, usually from getModelOverrides()
+ */
+export function resolveThinkingMode(
+	modelId: string,
+	modelOptions?: Record<string, unknown>,
+	overrides: readonly ModelMetadata[] = getModelOverrides()
+): ThinkingMode | undefined {
+	if (!hasModelCapability(modelId, "thinkingSwitch", overrides)) {
+		return undefined;
+	}
+	const fromOptions = parseThinkingMode(modelOptions?.thinking);
+	if (fromOptions) {
+		return fromOptions;
+	}
+	// The most specific entry that sets thinking, so an entry for other fields does not hide it
+	const fromOverride = parseThinkingMode(findModelMetadata(overrides.filter((o) => o.thinking !== undefined), modelId)?.thinking);
+	if (fromOverride) {
+		return fromOverride;
+	}
+	const config = vscode.workspace.getConfiguration("chatglmRouter");
+	return parseThinkingMode(config.get<string>("thinking", "auto"));
+}
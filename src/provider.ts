@@ -11,10 +11,24 @@ import {
 
 import type { HFModelItem, HFModelsResponse } from "./types";
 
-import { convertTools, convertMessages, tryParseJSONObject, validateRequest } from "./utils";
-import { getProviderByModelId, getToolSupportingProviders, getAllProviders, getProviderByIdAny, type ProviderConfig } from "./config";
+import { convertTools, convertMessages, validateRequest } from "./utils";
+import { getProviderByModelId, getToolSupportingProviders, getEnabledProviders, getProviderByIdAny, type ProviderConfig } from "./config";
 import { getStaticModelsForProvider } from "./static-models";
-import { StatisticsManager } from "./statistics";
+import { StatisticsManager, type RequestUsage } from "./statistics";
+import { HttpStatusError, getRetryPolicy, runWithRetry } from "./retry";
+import { createAbortController } from "./cancellation";
+import { RequestTimeoutError, RequestWatchdog, getRequestTimeouts } from "./timeouts";
+import { ChatStreamSession, StreamApiError } from "./stream-session";
+import { ModelListCache, getModelCacheTtlMs, modelCacheKey } from "./model-cache";
+import { getModelOverrides, resolveModelMetadata, resolveThinkingMode } from "./model-catalog";
+import { resolveRequestParameters } from "./request-params";
+import { buildWebSearchTool, getWebSearchOptions, supportsWebSearch } from "./web-search";
+import { ApiKeyStore, getKeyFailureReason } from "./api-keys";
+import { offerErrorActions, toLanguageModelError } from "./api-errors";
+import { compactMessages, getCompactionOptions } from "./compaction";
+import { MAX_TOOLS_PER_REQUEST, getToolSelectionOptions, selectTools } from "./tool-selection";
+import { TokenCalibration, estimateMessageTokens, estimateMessagesTokens, estimateTextTokens, estimateToolTokens, isTokenCalibrationEnabled } from "./tokenizer";
+import { log } from "./logger";
 
 const DEFAULT_MAX_OUTPUT_TOKENS = 8192;
 const DEFAULT_CONTEXT_LENGTH = 128000;
@@ -25,71 +39,40 @@ const DEFAULT_CONTEXT_LENGTH = 128000;
  */
 export class ChatGLMRouterProvider implements LanguageModelChatProvider {
 	private _chatEndpoints: { model: string; modelMaxPromptTokens: number }[] = [];
-	/** Buffer for assembling streamed tool calls by index. */
-	private _toolCallBuffers: Map<number, { id?: string; name?: string; args: string }> = new Map<
-		number,
-		{ id?: string; name?: string; args: string }
-	>();
-
-	/** Indices for which a tool call has been fully emitted. */
-	private _completedToolCallIndices = new Set<number>();
-
-	/** Track if we emitted any assistant text before seeing tool calls (SSE-like begin-tool-calls hint). */
-	private _hasEmittedAssistantText = false;
-
-	/** Track if we emitted the begin-tool-calls whitespace flush. */
-	private _emittedBeginToolCallsHint = false;
-
-	// Lightweight tokenizer state for tool calls embedded in text
-	private _textToolParserBuffer = "";
-	private _textToolActive:
-		| undefined
-		| {
-			name?: string;
-			index?: number;
-			argBuffer: string;
-			emitted?: boolean;
-		};
-	private _emittedTextToolCallKeys = new Set<string>();
-	private _emittedTextToolCallIds = new Set<string>();
 
-	/** Track output tokens for statistics */
-	private _outputTokenCount = 0;
+	/** Cache keys whose model list is currently being refreshed in the background */
+	private _pendingRefreshes = new Set<string>();
+
+	/** Per-model correction of token estimates from server-reported usage */
+	private readonly _tokenCalibration = new TokenCalibration();
+
+	// Event emitter asking the host to call prepareLanguageModelChatInformation again
+	private readonly _onDidChangeLanguageModelInformation = new vscode.EventEmitter<void>();
+	readonly onDidChangeLanguageModelInformation = this._onDidChangeLanguageModelInformation.event;
 
 	/**
 	 * Create a provider using the given secret storage and statistics manager.
 	 * @param secrets VS Code secret storage.
 	 * @param statsManager Statistics manager for tracking usage.
 	 * @param userAgent User agent string for API requests.
+	 * @param modelCache Optional persistent cache of model lists.
+	 * @param apiKeys Per-provider API keys and profiles; defaults to the default profile in `secrets`.
 	 */
 	constructor(
-		private readonly secrets: vscode.SecretStorage,
+		secrets: vscode.SecretStorage,
 		private readonly statsManager: StatisticsManager,
-		private readonly userAgent: string
+		private readonly userAgent: string,
+		private readonly modelCache?: ModelListCache,
+		private readonly apiKeys: ApiKeyStore = new ApiKeyStore(secrets)
 	) {}
 
-	/** Roughly estimate tokens for VS Code chat messages (text only) */
-	private estimateMessagesTokens(msgs: readonly vscode.LanguageModelChatMessage[]): number {
-		let total = 0;
-		for (const m of msgs) {
-			for (const part of m.content) {
-				if (part instanceof vscode.LanguageModelTextPart) {
-					total += Math.ceil(part.value.length / 4);
-				}
-			}
-		}
-		return total;
-	}
-
-	/** Rough token estimate for tool definitions by JSON size */
-	private estimateToolTokens(tools: { type: string; function: { name: string; description?: string; parameters?: object } }[] | undefined): number {
-		if (!tools || tools.length === 0) { return 0; }
-		try {
-			const json = JSON.stringify(tools);
-			return Math.ceil(json.length / 4);
-		} catch {
-			return 0;
-		}
+	/**
+	 * Scale a local token estimate by what the server reported for earlier requests to this model
+	 * @param modelId Model identifier
+	 * @param estimated Uncalibrated estimate
+	 */
+	private calibrateTokens(modelId: string, estimated: number): number {
+		return isTokenCalibrationEnabled() ? this._tokenCalibration.apply(modelId, estimated) : estimated;
 	}
 
 	/**
@@ -100,28 +83,15 @@ export class ChatGLMRouterProvider implements LanguageModelChatProvider {
 	 */
 	async prepareLanguageModelChatInformation(
 		options: { silent: boolean },
-		_token: CancellationToken
+		token: CancellationToken
 	): Promise<LanguageModelChatInformation[]> {
-		// Get all providers (built-in + custom)
-		const allProviders = getAllProviders();
-
-		// Get enabled providers from configuration
-		const config = vscode.workspace.getConfiguration("chatglmRouter");
-		const enabledProviderIds = config.get<string[]>("enabledProviders", ["chatglm-coding"]);
-
-		// Filter providers: must be enabled (API key may be missing; we'll show static or placeholder models)
+		// Enabled built-in providers plus custom providers (API key may be missing; we'll show static or placeholder models)
 		const providersToFetch: Array<{ provider: ProviderConfig; apiKey?: string }> = [];
-		for (const provider of allProviders) {
-			// Check if provider is enabled in settings
-			if (!enabledProviderIds.includes(provider.id)) {
-				console.log(`[ChatGLM Router] Provider ${provider.id} is not enabled in settings, skipping`);
-				continue;
-			}
-
+		for (const provider of getEnabledProviders()) {
 			// Check if API key exists (without prompting)
-			const apiKey = await this.secrets.get(provider.apiKeySecret);
+			const apiKey = await this.apiKeys.get(provider);
 			if (!apiKey) {
-				console.log(`[ChatGLM Router] Provider ${provider.id} has no API key configured, will show static/placeholder models`);
+				log.info(`Provider ${provider.id} has no API key configured, will show static/placeholder models`);
 			}
 
 			providersToFetch.push({ provider, apiKey });
@@ -132,59 +102,58 @@ export class ChatGLMRouterProvider implements LanguageModelChatProvider {
 		for (const { provider, apiKey } of providersToFetch) {
 			if (apiKey) {
 				try {
-					const { models } = await this.fetchModels(provider, apiKey);
+					const models = await this.getModels(provider, apiKey, token);
 					const infos = await this.buildModelInformation(models, provider);
 					allInfos.push(...infos);
 				} catch (error) {
-					console.error(`[ChatGLM Router] Failed to fetch models from ${provider.id}:`, error);
-					if (provider.id.startsWith("chatglm")) {
+					log.error(`Failed to fetch models from ${provider.id}:`, error);
+					if (!provider.isCustom) {
 						const staticModels = getStaticModelsForProvider(provider.id);
-					const staticInfos = await this.buildModelInformation(staticModels, provider, { tooltipSuffix: "API key not configured" });
+						const staticInfos = await this.buildModelInformation(staticModels, provider, {
+							tooltipSuffix: "Could not load models, showing the built-in list",
+						});
 						allInfos.push(...staticInfos);
 					}
 				}
 			} else {
 				// No API key: show static models or a placeholder so provider appears in UI
-				if (provider.id.startsWith("chatglm")) {
-					const staticModels = getStaticModelsForProvider(provider.id);
-					if (staticModels.length > 0) {
-						const staticInfos = await this.buildModelInformation(staticModels, provider, { tooltipSuffix: "API key not configured" });
-						allInfos.push(...staticInfos);
-					} else {
-						// Add a placeholder entry so the provider is visible
-						allInfos.push({
-							id: `${provider.id}:__no_api_key__`,
-							name: `${provider.name} (API key not configured)`,
-							tooltip: `${provider.name} — API key not configured`,
-							family: provider.family,
-							version: "1.0.0",
-							maxInputTokens: Math.max(1, provider.defaultContextLength - provider.defaultMaxTokens),
-							maxOutputTokens: provider.defaultMaxTokens,
-							capabilities: {
-								toolCalling: true,
-								imageInput: false,
-							},
-						} as LanguageModelChatInformation);
-					}
+				const staticModels = provider.isCustom ? [] : getStaticModelsForProvider(provider.id);
+				if (staticModels.length > 0) {
+					const staticInfos = await this.buildModelInformation(staticModels, provider, { tooltipSuffix: "API key not configured" });
+					allInfos.push(...staticInfos);
 				} else {
-					console.log(`[ChatGLM Router] Provider ${provider.id} has no API key and no static models; skipping`);
+					// Add a placeholder entry so the provider is visible
+					allInfos.push({
+						id: `${provider.id}:__no_api_key__`,
+						name: `${provider.name} (API key not configured)`,
+						tooltip: `${provider.name} — API key not configured`,
+						family: provider.family,
+						version: "1.0.0",
+						maxInputTokens: Math.max(1, provider.defaultContextLength - provider.defaultMaxTokens),
+						maxOutputTokens: provider.defaultMaxTokens,
+						capabilities: {
+							toolCalling: provider.supportsTools,
+							imageInput: false,
+						},
+					} as LanguageModelChatInformation);
 				}
 			}
 		}
 
-		// Deduplicate by base model ID (keep first occurrence)
+		// Deduplicate by base model ID (keep first occurrence); custom providers are never merged
+		// into the ChatGLM endpoints since they may route the same model differently
 		const seenBaseModels = new Set<string>();
 		const uniqueInfos: LanguageModelChatInformation[] = [];
 		for (const info of allInfos) {
 			// Extract base model ID (remove provider prefix and variant)
 			const parts = info.id.split(":");
-			const baseModelId = parts[parts.length > 1 ? 1 : 0];
+			const baseModelId = getProviderByModelId(info.id).isCustom ? info.id : parts[parts.length > 1 ? 1 : 0];
 
 			if (!seenBaseModels.has(baseModelId)) {
 				seenBaseModels.add(baseModelId);
 				uniqueInfos.push(info);
 			} else {
-				console.log(`[ChatGLM Router] Skipping duplicate model ${info.id} (base: ${baseModelId})`);
+				log.info(`Skipping duplicate model ${info.id} (base: ${baseModelId})`);
 			}
 		}
 
@@ -219,12 +188,11 @@ export class ChatGLMRouterProvider implements LanguageModelChatProvider {
 		// Check if model tooltip statistics are enabled
 		const config = vscode.workspace.getConfiguration("chatglmRouter.statistics");
 		const enableModelTooltip = config.get<boolean>("modelTooltip.enabled", true);
+		const overrides = getModelOverrides();
 
 		for (const m of models) {
-			// For all providers (ChatGLM and custom), create simple entries without variants
-			const contextLen = provider.defaultContextLength;
-			const maxOutput = provider.defaultMaxTokens;
-			const maxInput = Math.max(1, contextLen - maxOutput);
+			// Limits and capabilities come from the model catalog (built-in, API data, user overrides)
+			const meta = resolveModelMetadata(m, provider, overrides);
 
 			// Build tooltip with statistics
 			let tooltip = `${provider.name}`;
@@ -247,15 +215,15 @@ export class ChatGLMRouterProvider implements LanguageModelChatProvider {
 
 			infos.push({
 				id: `${provider.id}:${m.id}`,
-				name: `${m.id} (${provider.name})`,
+				name: `${meta.displayName} (${provider.name})`,
 				tooltip,
 				family: provider.family,
 				version: "1.0.0",
-				maxInputTokens: maxInput,
-				maxOutputTokens: maxOutput,
+				maxInputTokens: meta.maxInputTokens,
+				maxOutputTokens: meta.maxOutputTokens,
 				capabilities: {
-					toolCalling: true,
-					imageInput: false,
+					toolCalling: meta.toolCalling,
+					imageInput: meta.imageInput,
 				},
 			} satisfies LanguageModelChatInformation);
 		}
@@ -263,46 +231,147 @@ export class ChatGLMRouterProvider implements LanguageModelChatProvider {
 		return infos;
 	}
 
+	/**
+	 * Get the model list for a provider, preferring the persistent cache.
+	 * A cached list is served immediately; if it is older than the TTL it is refreshed in the background.
+	 * Without a cached list the API is queried and the result cached.
+	 * @param provider Provider configuration
+	 * @param apiKey The API key used to authenticate
+	 * @param token Cancellation token
+	 */
+	private async getModels(provider: ProviderConfig, apiKey: string, token?: CancellationToken): Promise<HFModelItem[]> {
+		const key = this.modelCacheKey(provider);
+		const cached = this.modelCache?.get(key);
+		if (cached) {
+			if (!ModelListCache.isFresh(cached, getModelCacheTtlMs())) {
+				this.refreshModelsInBackground(provider, apiKey, key);
+			}
+			return cached.models;
+		}
+
+		const { models } = await this.fetchModels(provider, apiKey, token);
+		await this.modelCache?.set(key, models);
+		return models;
+	}
+
+	/**
+	 * Cache key of a provider's model list for its current endpoint and the active key profile
+	 * @param provider Provider configuration
+	 */
+	private modelCacheKey(provider: ProviderConfig): string {
+		return modelCacheKey(provider.id, provider.baseUrl, this.apiKeys.activeProfile);
+	}
+
+	/**
+	 * Refresh a provider's cached model list without blocking the caller.
+	 * Fires onDidChangeLanguageModelInformation when the list changed.
+	 * @param provider Provider configuration
+	 * @param apiKey The API key used to authenticate
+	 * @param key Cache key the list is stored under
+	 */
+	private refreshModelsInBackground(provider: ProviderConfig, apiKey: string, key: string): void {
+		if (!this.modelCache || this._pendingRefreshes.has(key)) {
+			return;
+		}
+		this._pendingRefreshes.add(key);
+		const previous = this.modelCache.get(key)?.models ?? [];
+
+		void (async () => {
+			try {
+				const { models } = await this.fetchModels(provider, apiKey);
+				await this.modelCache?.set(key, models);
+				const changed = models.map((m) => m.id).join("\n") !== previous.map((m) => m.id).join("\n");
+				if (changed) {
+					log.info(`Model list of ${provider.id} changed, notifying host`);
+					this._onDidChangeLanguageModelInformation.fire();
+				}
+			} catch (err) {
+				// Keep serving the cached list
+				log.warn(`Background model refresh for ${provider.id} failed`, err);
+			} finally {
+				this._pendingRefreshes.delete(key);
+			}
+		})();
+	}
+
+	/**
+	 * Re-fetch the model lists of all enabled providers with an API key, bypassing the cache TTL
+	 * @returns Number of models fetched
+	 */
+	async refreshModels(): Promise<number> {
+		let total = 0;
+		const errors: string[] = [];
+		for (const provider of getEnabledProviders()) {
+			const apiKey = await this.apiKeys.get(provider);
+			if (!apiKey) {
+				continue;
+			}
+			try {
+				const { models } = await this.fetchModels(provider, apiKey);
+				await this.modelCache?.set(this.modelCacheKey(provider), models);
+				total += models.length;
+			} catch (err) {
+				errors.push(`${provider.name}: ${err instanceof Error ? err.message : String(err)}`);
+			}
+		}
+
+		this._onDidChangeLanguageModelInformation.fire();
+		if (errors.length > 0) {
+			throw new Error(errors.join("\n"));
+		}
+		return total;
+	}
+
 	/**
 	 * Fetch the list of models from a provider's API
 	 * @param provider Provider configuration
 	 * @param apiKey The API key used to authenticate
+	 * @param token Cancellation token; aborts the HTTP request when fired
 	 */
 	private async fetchModels(
 		provider: ProviderConfig,
-		apiKey: string
+		apiKey: string,
+		token?: CancellationToken
 	): Promise<{ models: HFModelItem[] }> {
-		const modelsList = (async () => {
+		const abort = createAbortController(token);
+		const modelsList = runWithRetry(async () => {
 			const resp = await fetch(`${provider.baseUrl}/models`, {
 				method: "GET",
 				headers: { Authorization: `Bearer ${apiKey}`, "User-Agent": this.userAgent },
+				signal: abort.controller.signal,
 			});
 			if (!resp.ok) {
-				let text = "";
-				try {
-					text = await resp.text();
-				} catch (error) {
-					console.error(`[ChatGLM Router] Failed to read response text from ${provider.id}`, error);
-				}
-				const err = new Error(
-					`Failed to fetch models from ${provider.name}: ${resp.status} ${resp.statusText}${text ? `\n${text}` : ""}`
-				);
-				console.error(`[ChatGLM Router] Failed to fetch models from ${provider.id}`, err);
-				throw err;
+				throw await HttpStatusError.fromResponse(resp, `Failed to fetch models from ${provider.name}`);
 			}
 			const parsed = (await resp.json()) as HFModelsResponse;
 			return parsed.data ?? [];
-		})();
+		}, { policy: getRetryPolicy(), label: `Model list request to ${provider.id}`, token });
 
 		try {
 			const models = await modelsList;
 			return { models };
 		} catch (err) {
-			console.error(`[ChatGLM Router] Failed to fetch models from ${provider.id}`, err);
+			log.error(`Failed to fetch models from ${provider.id}`, err);
 			throw err;
+		} finally {
+			abort.dispose();
 		}
 	}
 
+	/**
+	 * Ask the host to re-query model information (e.g. after model settings changed)
+	 */
+	notifyModelInformationChanged(): void {
+		this._onDidChangeLanguageModelInformation.fire();
+	}
+
+	/**
+	 * Dispose resources
+	 */
+	dispose(): void {
+		this._onDidChangeLanguageModelInformation.dispose();
+	}
+
 	/**
 	 * Returns the response for a chat request, passing the results to the progress callback.
 	 * @param model The language model to use
@@ -319,23 +388,21 @@ export class ChatGLMRouterProvider implements LanguageModelChatProvider {
 		token: CancellationToken
 	): Promise<void> {
 
-		this._toolCallBuffers.clear();
-		this._completedToolCallIndices.clear();
-		this._hasEmittedAssistantText = false;
-		this._emittedBeginToolCallsHint = false;
-		this._textToolParserBuffer = "";
-		this._textToolActive = undefined;
-		this._emittedTextToolCallKeys.clear();
-		this._emittedTextToolCallIds.clear();
-		this._outputTokenCount = 0;
-
 		let requestBody: Record<string, unknown> | undefined;
+		const startedAt = Date.now();
+		let firstPartAt: number | undefined;
+		// Retries are only safe while nothing has been shown to the user yet
+		let hasReportedPart = false;
 		const trackingProgress: Progress<LanguageModelResponsePart> = {
 			report: (part) => {
+				hasReportedPart = true;
+				if (firstPartAt === undefined) {
+					firstPartAt = Date.now();
+				}
 				try {
 					progress.report(part);
 				} catch (e) {
-					console.error("[ChatGLM Router] Progress.report failed", {
+					log.error("Progress.report failed", {
 						modelId: model.id,
 						error: e instanceof Error ? { name: e.name, message: e.message } : String(e),
 					});
@@ -345,105 +412,292 @@ export class ChatGLMRouterProvider implements LanguageModelChatProvider {
 
 		// Detect provider from model ID
 		const provider = getProviderByModelId(model.id);
+		const silent: boolean = (options as any).silent ?? false;
+		// Usage is attributed to the profile whose key served the request
+		const profile = this.apiKeys.activeProfile;
+
+		// Abort the HTTP request and stream read as soon as the chat is cancelled
+		const abort = createAbortController(token);
+		// Aborts only the current attempt when a timeout fires
+		let attemptAbort: AbortController | undefined;
+		const watchdog = new RequestWatchdog(getRequestTimeouts(provider), (kind) => {
+			log.warn(`Chat request to ${provider.id} timed out`, { kind, limitMs: watchdog.limitOf(kind), modelId: model.id });
+			attemptAbort?.abort();
+		});
+		let inputTokenCount: number | undefined;
+		let rawPromptEstimate = 0;
+		let session: ChatStreamSession | undefined;
 
 		try {
-			const apiKey = await this.ensureApiKey(provider, (options as any).silent ?? false);
+			const apiKey = await this.ensureApiKey(provider, silent);
 			if (!apiKey) {
 				throw new Error(`${provider.name} API key not found`);
 			}
 
-			const openaiMessages = convertMessages(messages);
+			// Extract actual model ID (remove provider prefix)
+			const actualModelId = this.extractActualModelId(model.id, provider);
 
-			validateRequest(messages);
+			// Zhipu's server-side web search is sent as an extra tool next to the function tools and
+			// counts against the same budget
+			const webSearch = getWebSearchOptions(provider.id, actualModelId, options.modelOptions as Record<string, unknown> | undefined);
+			const webSearchSupported = supportsWebSearch(provider, actualModelId);
+			if (webSearch && !webSearchSupported) {
+				log.warn("Web search is not supported by this provider, sending the request without it", { modelId: actualModelId });
+			}
+			const webSearchTools = webSearch && webSearchSupported ? [buildWebSearchTool(webSearch)] : [];
+			const webSearchTokenCount = estimateToolTokens(webSearchTools);
 
-			const toolConfig = convertTools(options);
+			// Send only the most relevant tools when the request exceeds the model's tool limits
+			const selectionOptions = getToolSelectionOptions(actualModelId, model.maxInputTokens, (tool) =>
+				estimateToolTokens(convertTools({ tools: [tool] }).tools)
+			);
+			const selection = selectTools(options.tools ?? [], messages, {
+				...selectionOptions,
+				maxTokens: Math.max(1, selectionOptions.maxTokens - webSearchTokenCount),
+			});
+			if (selection.dropped.length > 0) {
+				log.info("Selected tools for request", {
+					modelId: actualModelId,
+					offered: options.tools?.length ?? 0,
+					sent: selection.tools.length,
+					keptFromHistory: selection.kept,
+					tokensBefore: selection.tokensBefore,
+					tokensAfter: selection.tokensAfter,
+				});
+				log.debug("Tools left out", { dropped: selection.dropped });
+			}
+			const toolConfig = convertTools({ ...options, tools: selection.tools });
 
-			if (options.tools && options.tools.length > 128) {
-				throw new Error("Cannot have more than 128 tools per request.");
+			if (selection.tools.length > MAX_TOOLS_PER_REQUEST) {
+				throw new Error(`Cannot have more than ${MAX_TOOLS_PER_REQUEST} tools per request.`);
 			}
 
-			const inputTokenCount = this.estimateMessagesTokens(messages);
-			const toolTokenCount = this.estimateToolTokens(toolConfig.tools);
+			// Fit the conversation into the input budget left after the tool definitions
+			const toolTokenCount = estimateToolTokens(toolConfig.tools) + webSearchTokenCount;
 			const tokenLimit = Math.max(1, model.maxInputTokens);
-			if (inputTokenCount + toolTokenCount > tokenLimit) {
-				console.error("[ChatGLM Router] Message exceeds token limit", { total: inputTokenCount + toolTokenCount, tokenLimit });
-				throw new Error("Message exceeds token limit.");
+			const compaction = compactMessages(messages, tokenLimit - this.calibrateTokens(model.id, toolTokenCount), {
+				...getCompactionOptions(),
+				countTokens: (m) => this.calibrateTokens(model.id, estimateMessageTokens(m)),
+			});
+			if (compaction.droppedMessages > 0 || compaction.truncatedToolResults > 0) {
+				log.warn("Compacted conversation to fit the context window", {
+					modelId: model.id,
+					tokensBefore: compaction.tokensBefore,
+					tokensAfter: compaction.tokensAfter,
+					droppedMessages: compaction.droppedMessages,
+					truncatedToolResults: compaction.truncatedToolResults,
+					tokenLimit,
+				});
 			}
+			const requestMessages = compaction.messages;
 
-			// Extract actual model ID (remove provider prefix)
-			const actualModelId = this.extractActualModelId(model.id, provider);
+			const openaiMessages = convertMessages(requestMessages, { imageInput: model.capabilities?.imageInput === true });
+
+			validateRequest(requestMessages);
+
+			rawPromptEstimate = estimateMessagesTokens(requestMessages) + toolTokenCount;
+			inputTokenCount = this.calibrateTokens(model.id, rawPromptEstimate);
+			if (inputTokenCount > tokenLimit) {
+				log.error("Message exceeds token limit", { total: inputTokenCount, tokenLimit });
+				throw new Error("Message exceeds token limit.");
+			}
 
+			// Sampling and request parameters: modelOptions, then per-model defaults from settings
+			const { params, ignored } = resolveRequestParameters(
+				actualModelId,
+				model.maxOutputTokens,
+				options.modelOptions as Record<string, unknown> | undefined
+			);
+			for (const { name, value, source, reason } of ignored) {
+				log.warn(`Ignoring request parameter "${name}"`, { modelId: actualModelId, value, source, reason });
+			}
 			requestBody = {
 				model: actualModelId,
 				messages: openaiMessages,
 				stream: true,
-				max_tokens: Math.min(options.modelOptions?.max_tokens || 4096, model.maxOutputTokens),
-				temperature: options.modelOptions?.temperature ?? 0.7,
+				stream_options: { include_usage: true },
+				...params,
 			};
 
-			// Allow-list model options
-			if (options.modelOptions) {
-				const mo = options.modelOptions as Record<string, unknown>;
-				if (typeof mo.stop === "string" || Array.isArray(mo.stop)) {
-					(requestBody as Record<string, unknown>).stop = mo.stop;
-				}
-				if (typeof mo.frequency_penalty === "number") {
-					(requestBody as Record<string, unknown>).frequency_penalty = mo.frequency_penalty;
-				}
-				if (typeof mo.presence_penalty === "number") {
-					(requestBody as Record<string, unknown>).presence_penalty = mo.presence_penalty;
-				}
+			// Deep thinking switch (GLM-4.5 and later); reasoning streams back as reasoning_content
+			const thinking = resolveThinkingMode(actualModelId, options.modelOptions as Record<string, unknown> | undefined);
+			if (thinking) {
+				(requestBody as Record<string, unknown>).thinking = { type: thinking };
 			}
 
-			if (toolConfig.tools) {
-				(requestBody as Record<string, unknown>).tools = toolConfig.tools;
+			if (toolConfig.tools || webSearchTools.length > 0) {
+				(requestBody as Record<string, unknown>).tools = [...(toolConfig.tools ?? []), ...webSearchTools];
 			}
 			if (toolConfig.tool_choice) {
 				(requestBody as Record<string, unknown>).tool_choice = toolConfig.tool_choice;
 			}
 
-			const response = await fetch(`${provider.baseUrl}/chat/completions`, {
-				method: "POST",
-				headers: {
-					Authorization: `Bearer ${apiKey}`,
-					"Content-Type": "application/json",
-					"User-Agent": this.userAgent,
-				},
-				body: JSON.stringify(requestBody),
+			log.info(`Chat request to ${provider.id}`, {
+				modelId: actualModelId,
+				messages: openaiMessages.length,
+				tools: toolConfig.tools?.length ?? 0,
+				estimatedInputTokens: inputTokenCount,
+				maxTokens: requestBody.max_tokens,
+				thinking,
+				webSearch: webSearchTools[0]?.web_search.search_engine,
 			});
+			log.trace("Request body", requestBody);
+
+			const body = JSON.stringify(requestBody);
+			await runWithRetry(async () => {
+				// Fresh state per attempt; partial buffers from a failed attempt are discarded
+				session = new ChatStreamSession(trackingProgress, options.tools);
+				if (watchdog.fired === "total") {
+					throw new RequestTimeoutError("total", watchdog.timeouts.totalMs, provider.name);
+				}
+				attemptAbort = new AbortController();
+				watchdog.startAttempt();
+				try {
+					const signal = AbortSignal.any([abort.controller.signal, attemptAbort.signal]);
+					const response = await this.postChatCompletion(provider, body, signal);
 
-			if (!response.ok) {
-				const errorText = await response.text();
-				console.error("[ChatGLM Router] API error response", { provider: provider.id, error: errorText });
-				throw new Error(
-					`${provider.name} API error: ${response.status} ${response.statusText}${errorText ? `\n${errorText}` : ""}`
-				);
-			}
+					if (!response.body) {
+						throw new Error("No response body from API");
+					}
 
-			if (!response.body) {
-				throw new Error("No response body from API");
-			}
+					await session.processStreamingResponse(response.body, token, () => watchdog.activity());
+				} catch (err) {
+					const fired = watchdog.fired;
+					if (fired && !token.isCancellationRequested) {
+						throw new RequestTimeoutError(fired, watchdog.limitOf(fired), provider.name);
+					}
+					throw err;
+				} finally {
+					watchdog.endAttempt();
+				}
+			}, {
+				policy: getRetryPolicy(),
+				label: `Chat request to ${provider.id}`,
+				token,
+				canRetry: () => !hasReportedPart,
+			});
 
-			await this.processStreamingResponse(response.body, trackingProgress, token);
+			log.info(`Chat request to ${provider.id} completed`, {
+				modelId: actualModelId,
+				durationMs: Date.now() - startedAt,
+				timeToFirstPartMs: firstPartAt !== undefined ? firstPartAt - startedAt : undefined,
+				usage: session?.usage,
+			});
+
+			const reportedPrompt = session?.usage?.prompt_tokens;
+			if (typeof reportedPrompt === "number") {
+				this._tokenCalibration.observe(model.id, rawPromptEstimate, reportedPrompt);
+			}
 
 			// Record statistics after successful response
 			await this.statsManager.recordRequest(
 				provider.id,
 				model.id,
-				inputTokenCount,
-				this._outputTokenCount
+				this.resolveUsage(session, inputTokenCount),
+				profile
 			);
 		} catch (err) {
-			console.error("[ChatGLM Router] Chat request failed", {
+			if (token.isCancellationRequested) {
+				log.info("Chat request cancelled", { provider: provider.id, modelId: model.id });
+				if (inputTokenCount !== undefined) {
+					// The server may already have billed the prompt and part of the output
+					await this.statsManager.recordRequest(provider.id, model.id, {
+						...this.resolveUsage(session, inputTokenCount),
+						cancelled: true,
+					}, profile);
+				}
+				throw new vscode.CancellationError();
+			}
+			if (err instanceof RequestTimeoutError && inputTokenCount !== undefined) {
+				await this.statsManager.recordRequest(provider.id, model.id, {
+					...this.resolveUsage(session, inputTokenCount),
+					timedOut: true,
+				}, profile);
+			}
+			log.error("Chat request failed", {
 				provider: provider.id,
 				modelId: model.id,
 				messageCount: messages.length,
 				error: err instanceof Error ? { name: err.name, message: err.message } : String(err),
 			});
+			if (err instanceof HttpStatusError || err instanceof StreamApiError) {
+				const mapped = toLanguageModelError(err, provider, this.extractActualModelId(model.id, provider));
+				if (mapped) {
+					if (!silent) {
+						void offerErrorActions(mapped.error.message, mapped.actions);
+					}
+					throw mapped.error;
+				}
+			}
 			throw err;
+		} finally {
+			watchdog.dispose();
+			abort.dispose();
 		}
 	}
 
+	/**
+	 * POST a chat completion request, failing over to the provider's next API key when the
+	 * current one is rate limited, out of balance or rejected
+	 * @param provider Provider configuration
+	 * @param body Serialized request body
+	 * @param signal Abort signal of the request
+	 * @returns The successful response
+	 */
+	private async postChatCompletion(provider: ProviderConfig, body: string, signal: AbortSignal): Promise<Response> {
+		for (;;) {
+			const apiKey = await this.apiKeys.get(provider);
+			if (!apiKey) {
+				throw new Error(`${provider.name} API key not found`);
+			}
+			const sentAt = Date.now();
+			const response = await fetch(`${provider.baseUrl}/chat/completions`, {
+				method: "POST",
+				headers: {
+					Authorization: `Bearer ${apiKey}`,
+					"Content-Type": "application/json",
+					"User-Agent": this.userAgent,
+				},
+				body,
+				signal,
+			});
+			log.debug(`POST ${provider.baseUrl}/chat/completions: ${response.status} after ${Date.now() - sentAt}ms`);
+			if (response.ok) {
+				await this.apiKeys.reportSuccess(provider, apiKey);
+				return response;
+			}
+
+			const err = await HttpStatusError.fromResponse(response, `${provider.name} API error`);
+			log.error("API error response", { provider: provider.id, status: err.status, error: err.body });
+			const reason = getKeyFailureReason(err);
+			// Each failure cools the key down, so this ends once every key has failed
+			if (!reason || !(await this.apiKeys.reportFailure(provider, apiKey, reason, err.retryAfterMs))) {
+				throw err;
+			}
+		}
+	}
+
+	/**
+	 * Prefer server-reported usage, falling back to local estimates for missing fields
+	 * @param session Stream session of the request (usage block and output estimates)
+	 * @param estimatedInput Locally estimated prompt tokens
+	 */
+	private resolveUsage(session: ChatStreamSession | undefined, estimatedInput: number): RequestUsage {
+		const usage = session?.usage;
+		const prompt = usage?.prompt_tokens;
+		const completion = usage?.completion_tokens;
+		const cached = usage?.prompt_tokens_details?.cached_tokens;
+		const reasoning = usage?.completion_tokens_details?.reasoning_tokens;
+		return {
+			inputTokens: typeof prompt === "number" ? prompt : estimatedInput,
+			outputTokens: typeof completion === "number" ? completion : session?.outputTokenCount ?? 0,
+			cachedTokens: typeof cached === "number" ? cached : undefined,
+			reasoningTokens: typeof reasoning === "number" ? reasoning : session?.reasoningTokenCount || undefined,
+			inputEstimated: typeof prompt !== "number",
+			outputEstimated: typeof completion !== "number",
+		};
+	}
+
 	/**
 	 * Extract actual model ID from prefixed model ID
 	 * @param modelId Full model ID with provider prefix
@@ -472,26 +726,17 @@ export class ChatGLMRouterProvider implements LanguageModelChatProvider {
 		text: string | LanguageModelChatMessage,
 		_token: CancellationToken
 	): Promise<number> {
-		if (typeof text === "string") {
-			return Math.ceil(text.length / 4);
-		} else {
-			let totalTokens = 0;
-			for (const part of text.content) {
-				if (part instanceof vscode.LanguageModelTextPart) {
-					totalTokens += Math.ceil(part.value.length / 4);
-				}
-			}
-			return totalTokens;
-		}
+		const estimated = typeof text === "string" ? estimateTextTokens(text) : estimateMessageTokens(text);
+		return this.calibrateTokens(model.id, estimated);
 	}
 
 	/**
-	 * Ensure an API key exists in SecretStorage for a provider
+	 * Ensure an API key exists in the active profile for a provider
 	 * @param provider Provider configuration
 	 * @param silent If true, do not prompt the user
 	 */
 	private async ensureApiKey(provider: ProviderConfig, silent: boolean): Promise<string | undefined> {
-		let apiKey = await this.secrets.get(provider.apiKeySecret);
+		let apiKey = await this.apiKeys.get(provider);
 		if (!apiKey && !silent) {
 			const entered = await vscode.window.showInputBox({
 				title: `${provider.name} API Key`,
@@ -501,380 +746,9 @@ export class ChatGLMRouterProvider implements LanguageModelChatProvider {
 			});
 			if (entered && entered.trim()) {
 				apiKey = entered.trim();
-				await this.secrets.store(provider.apiKeySecret, apiKey);
+				await this.apiKeys.store(provider, apiKey);
 			}
 		}
 		return apiKey;
 	}
-
-	/**
-	 * Read and parse the streaming (SSE-like) response and report parts
-	 * @param responseBody The readable stream body
-	 * @param progress Progress reporter for streamed parts
-	 * @param token Cancellation token
-	 */
-	private async processStreamingResponse(
-		responseBody: ReadableStream<Uint8Array>,
-		progress: vscode.Progress<vscode.LanguageModelResponsePart>,
-		token: vscode.CancellationToken,
-	): Promise<void> {
-		const reader = responseBody.getReader();
-		const decoder = new TextDecoder();
-		let buffer = "";
-
-		try {
-			while (!token.isCancellationRequested) {
-				const { done, value } = await reader.read();
-				if (done) { break; }
-
-				buffer += decoder.decode(value, { stream: true });
-				const lines = buffer.split("\n");
-				buffer = lines.pop() || "";
-
-				for (const line of lines) {
-					if (!line.startsWith("data: ")) {
-						continue;
-					}
-					const data = line.slice(6);
-					if (data === "[DONE]") {
-						await this.flushToolCallBuffers(progress, /*throwOnInvalid*/ false);
-						await this.flushActiveTextToolCall(progress);
-						continue;
-					}
-
-					try {
-						const parsed = JSON.parse(data);
-						await this.processDelta(parsed, progress);
-					} catch {
-						// Silently ignore malformed SSE lines temporarily
-					}
-				}
-			}
-		} finally {
-			reader.releaseLock();
-			this._toolCallBuffers.clear();
-			this._completedToolCallIndices.clear();
-			this._hasEmittedAssistantText = false;
-			this._emittedBeginToolCallsHint = false;
-			this._textToolParserBuffer = "";
-			this._textToolActive = undefined;
-			this._emittedTextToolCallKeys.clear();
-		}
-	}
-
-	/**
-	 * Handle a single streamed delta chunk, emitting text and tool call parts
-	 * @param delta Parsed SSE chunk
-	 * @param progress Progress reporter for parts
-	 */
-	private async processDelta(
-		delta: Record<string, unknown>,
-		progress: vscode.Progress<vscode.LanguageModelResponsePart>,
-	): Promise<boolean> {
-		let emitted = false;
-		const choice = (delta.choices as Record<string, unknown>[] | undefined)?.[0];
-		if (!choice) { return false; }
-
-		const deltaObj = choice.delta as Record<string, unknown> | undefined;
-
-		// report thinking progress if backend provides it and host supports it
-		try {
-			const maybeThinking = (choice as Record<string, unknown> | undefined)?.thinking ?? (deltaObj as Record<string, unknown> | undefined)?.thinking;
-			if (maybeThinking !== undefined) {
-				const vsAny = (vscode as unknown as Record<string, unknown>);
-				const ThinkingCtor = vsAny["LanguageModelThinkingPart"] as
-					| (new (text: string, id?: string, metadata?: unknown) => unknown)
-					| undefined;
-				if (ThinkingCtor) {
-					let text = "";
-					let id: string | undefined;
-					let metadata: unknown;
-					if (maybeThinking && typeof maybeThinking === "object") {
-						const mt = maybeThinking as Record<string, unknown>;
-						text = typeof mt["text"] === "string" ? (mt["text"] as string) : "";
-						id = typeof mt["id"] === "string" ? (mt["id"] as string) : undefined;
-						metadata = mt["metadata"];
-					} else if (typeof maybeThinking === "string") {
-						text = maybeThinking;
-					}
-					if (text) {
-						progress.report(new (ThinkingCtor as new (text: string, id?: string, metadata?: unknown) => unknown)(text, id, metadata) as unknown as vscode.LanguageModelResponsePart);
-						emitted = true;
-					}
-				}
-			}
-		} catch {
-			// ignore errors here temporarily
-		}
-
-		if (deltaObj?.content) {
-			const content = String(deltaObj.content);
-			const res = this.processTextContent(content, progress);
-			if (res.emittedText) {
-				this._hasEmittedAssistantText = true;
-			}
-			if (res.emittedAny) {
-				emitted = true;
-			}
-			// Count output tokens (rough estimate)
-			this._outputTokenCount += Math.ceil(content.length / 4);
-		}
-
-		if (deltaObj?.tool_calls) {
-			const toolCalls = deltaObj.tool_calls as Array<Record<string, unknown>>;
-
-			if (!this._emittedBeginToolCallsHint && this._hasEmittedAssistantText && toolCalls.length > 0) {
-				progress.report(new vscode.LanguageModelTextPart(" "));
-				this._emittedBeginToolCallsHint = true;
-			}
-
-			for (const tc of toolCalls) {
-				const idx = (tc.index as number) ?? 0;
-				if (this._completedToolCallIndices.has(idx)) {
-					continue;
-				}
-				const buf = this._toolCallBuffers.get(idx) ?? { args: "" };
-				if (tc.id && typeof tc.id === "string") {
-					buf.id = tc.id as string;
-				}
-				const func = tc.function as Record<string, unknown> | undefined;
-				if (func?.name && typeof func.name === "string") {
-					buf.name = func.name as string;
-				}
-				if (typeof func?.arguments === "string") {
-					buf.args += func.arguments as string;
-					// Count tool call arguments as output tokens
-					this._outputTokenCount += Math.ceil((func.arguments as string).length / 4);
-				}
-				this._toolCallBuffers.set(idx, buf);
-				await this.tryEmitBufferedToolCall(idx, progress);
-			}
-		}
-
-		const finish = (choice.finish_reason as string | undefined) ?? undefined;
-		if (finish === "tool_calls" || finish === "stop") {
-			await this.flushToolCallBuffers(progress, /*throwOnInvalid*/ true);
-		}
-		return emitted;
-	}
-
-	/**
-	 * Process streamed text content for inline tool-call control tokens
-	 */
-	private processTextContent(
-		input: string,
-		progress: vscode.Progress<vscode.LanguageModelResponsePart>,
-	): { emittedText: boolean; emittedAny: boolean } {
-		const BEGIN = "<|tool_call_begin|>";
-		const ARG_BEGIN = "<|tool_call_argument_begin|>";
-		const END = "<|tool_call_end|>";
-
-		let data = this._textToolParserBuffer + input;
-		let emittedText = false;
-		let emittedAny = false;
-		let visibleOut = "";
-
-		while (data.length > 0) {
-			if (!this._textToolActive) {
-				const b = data.indexOf(BEGIN);
-				if (b === -1) {
-					const longestPartialPrefix = ((): number => {
-						for (let k = Math.min(BEGIN.length - 1, data.length - 1); k > 0; k--) {
-							if (data.endsWith(BEGIN.slice(0, k))) { return k; }
-						}
-						return 0;
-					})();
-					if (longestPartialPrefix > 0) {
-						const visible = data.slice(0, data.length - longestPartialPrefix);
-						if (visible) { visibleOut += this.stripControlTokens(visible); }
-						this._textToolParserBuffer = data.slice(data.length - longestPartialPrefix);
-						data = "";
-						break;
-					} else {
-						visibleOut += this.stripControlTokens(data);
-						data = "";
-						break;
-					}
-				}
-				const pre = data.slice(0, b);
-				if (pre) {
-					visibleOut += this.stripControlTokens(pre);
-				}
-				data = data.slice(b + BEGIN.length);
-
-				const a = data.indexOf(ARG_BEGIN);
-				const e = data.indexOf(END);
-				let delimIdx = -1;
-				let delimKind: "arg" | "end" | undefined = undefined;
-				if (a !== -1 && (e === -1 || a < e)) { delimIdx = a; delimKind = "arg"; }
-				else if (e !== -1) { delimIdx = e; delimKind = "end"; }
-				else {
-					this._textToolParserBuffer = BEGIN + data;
-					data = "";
-					break;
-				}
-
-				const header = data.slice(0, delimIdx).trim();
-				const m = header.match(/^([A-Za-z0-9_\-.]+)(?::(\d+))?/);
-				const name = m?.[1] ?? undefined;
-				const index = m?.[2] ? Number(m?.[2]) : undefined;
-				this._textToolActive = { name, index, argBuffer: "", emitted: false };
-				if (delimKind === "arg") {
-					data = data.slice(delimIdx + ARG_BEGIN.length);
-				} else {
-					data = data.slice(delimIdx + END.length);
-					const did = this.emitTextToolCallIfValid(progress, this._textToolActive, "{}");
-					if (did) {
-						this._textToolActive.emitted = true;
-						emittedAny = true;
-					}
-					this._textToolActive = undefined;
-				}
-				continue;
-			}
-
-			const e2 = data.indexOf(END);
-			if (e2 === -1) {
-				this._textToolActive.argBuffer += data;
-				if (!this._textToolActive.emitted) {
-					const did = this.emitTextToolCallIfValid(progress, this._textToolActive, this._textToolActive.argBuffer);
-					if (did) {
-						this._textToolActive.emitted = true;
-						emittedAny = true;
-					}
-				}
-				data = "";
-				break;
-			} else {
-				this._textToolActive.argBuffer += data.slice(0, e2);
-				data = data.slice(e2 + END.length);
-				if (!this._textToolActive.emitted) {
-					const did = this.emitTextToolCallIfValid(progress, this._textToolActive, this._textToolActive.argBuffer);
-					if (did) {
-						emittedAny = true;
-					}
-				}
-				this._textToolActive = undefined;
-				continue;
-			}
-		}
-
-		const textToEmit = visibleOut;
-		if (textToEmit && textToEmit.length > 0) {
-			progress.report(new vscode.LanguageModelTextPart(textToEmit));
-			emittedText = true;
-			emittedAny = true;
-		}
-
-		this._textToolParserBuffer = data;
-
-		return { emittedText, emittedAny };
-	}
-
-	private emitTextToolCallIfValid(
-		progress: vscode.Progress<vscode.LanguageModelResponsePart>,
-		call: { name?: string; index?: number; argBuffer: string; emitted?: boolean },
-		argText: string,
-	): boolean {
-		const name = call.name ?? "unknown_tool";
-		const parsed = tryParseJSONObject(argText);
-		if (!parsed.ok) {
-			return false;
-		}
-		const canonical = JSON.stringify(parsed.value);
-		const key = `${name}:${canonical}`;
-		if (typeof call.index === "number") {
-			const idKey = `${name}:${call.index}`;
-			if (this._emittedTextToolCallIds.has(idKey)) {
-				return false;
-			}
-			this._emittedTextToolCallIds.add(idKey);
-		} else if (this._emittedTextToolCallKeys.has(key)) {
-			return false;
-		}
-		this._emittedTextToolCallKeys.add(key);
-		const id = `tct_${Math.random().toString(36).slice(2, 10)}`;
-		progress.report(new vscode.LanguageModelToolCallPart(id, name, parsed.value));
-		return true;
-	}
-
-	private async flushActiveTextToolCall(
-		progress: vscode.Progress<vscode.LanguageModelResponsePart>,
-	): Promise<void> {
-		if (!this._textToolActive) {
-			return;
-		}
-		const argText = this._textToolActive.argBuffer;
-		const parsed = tryParseJSONObject(argText);
-		if (!parsed.ok) {
-			return;
-		}
-		this.emitTextToolCallIfValid(progress, this._textToolActive, argText);
-		this._textToolActive = undefined;
-	}
-
-	private async tryEmitBufferedToolCall(
-		index: number,
-		progress: vscode.Progress<vscode.LanguageModelResponsePart>
-	): Promise<void> {
-		const buf = this._toolCallBuffers.get(index);
-		if (!buf) {
-			return;
-		}
-		if (!buf.name) {
-			return;
-		}
-		const canParse = tryParseJSONObject(buf.args);
-		if (!canParse.ok) {
-			return;
-		}
-		const id = buf.id ?? `call_${Math.random().toString(36).slice(2, 10)}`;
-		const parameters = canParse.value;
-		try {
-			const canonical = JSON.stringify(parameters);
-			this._emittedTextToolCallKeys.add(`${buf.name}:${canonical}`);
-		} catch { /* ignore */ }
-		progress.report(new vscode.LanguageModelToolCallPart(id, buf.name, parameters));
-		this._toolCallBuffers.delete(index);
-		this._completedToolCallIndices.add(index);
-	}
-
-	private async flushToolCallBuffers(
-		progress: vscode.Progress<vscode.LanguageModelResponsePart>,
-		throwOnInvalid: boolean,
-	): Promise<void> {
-		if (this._toolCallBuffers.size === 0) {
-			return;
-		}
-		for (const [idx, buf] of Array.from(this._toolCallBuffers.entries())) {
-			const parsed = tryParseJSONObject(buf.args);
-			if (!parsed.ok) {
-				if (throwOnInvalid) {
-					console.error("[ChatGLM Router] Invalid JSON for tool call", { idx, snippet: (buf.args || "").slice(0, 200) });
-					throw new Error("Invalid JSON for tool call");
-				}
-				continue;
-			}
-			const id = buf.id ?? `call_${Math.random().toString(36).slice(2, 10)}`;
-			const name = buf.name ?? "unknown_tool";
-			try {
-				const canonical = JSON.stringify(parsed.value);
-				this._emittedTextToolCallKeys.add(`${name}:${canonical}`);
-			} catch { /* ignore */ }
-			progress.report(new vscode.LanguageModelToolCallPart(id, name, parsed.value));
-			this._toolCallBuffers.delete(idx);
-			this._completedToolCallIndices.add(idx);
-		}
-	}
-
-	/** Strip provider control tokens from streamed text */
-	private stripControlTokens(text: string): string {
-		try {
-			return text
-				.replace(/<\|[a-zA-Z0-9_-]+_section_(?:begin|end)\|>/g, "")
-				.replace(/<\|tool_call_(?:argument_)?(?:begin|end)\|>/g, "");
-		} catch {
-			return text;
-		}
-	}
 }
@@ -0,0 +1,205 @@
+/**
+ * Sampling and request parameters for ChatGLM Router
+ * Builds the GLM request parameters from the request's modelOptions, falling back to per-model
+ * defaults from the chatglmRouter.requestDefaults setting and then to built-in defaults.
+ * Values of the wrong type or out of range, and parameters the model does not accept, are
+ * left out with a warning instead of being sent to the API.
+ */
+
+import * as vscode from "vscode";
+import { hasModelCapability, matchesModelPattern, modelPatternSpecificity, type ModelCapability } from "./model-catalog";
+
+/** Request parameters, keyed by their API name */
+export type RequestParameters = Record<string, unknown>;
+
+/**
+ * A parameter left out of the request
+ */
+export interface IgnoredParameter {
+	name: string;
+	value: unknown;
+	/** Where the value came from */
+	source: "request" | "settings";
+	reason: string;
+}
+
+/**
+ * Parameters to send and the values that were left out
+ */
+export interface ResolvedRequestParameters {
+	params: RequestParameters;
+	ignored: IgnoredParameter[];
+}
+
+/**
+ * Validation rule for one parameter
+ */
+interface ParameterSpec {
+	/** Normalize a valid value, or return an error message */
+	check: (value: unknown) => { value: unknown } | { error: string };
+	/** Catalog capability a model needs to accept the parameter; all models when unset */
+	capability?: ModelCapability;
+	/** Only accepted per request, never as a default (e.g. IDs that must be unique) */
+	requestOnly?: boolean;
+}
+
+/** Used when neither the request nor the settings give a value */
+const BUILTIN_DEFAULTS: RequestParameters = { max_tokens: 4096, temperature: 0.7 };
+
+const RESPONSE_FORMAT_TYPES = ["text", "json_object", "json_schema"];
+
+const PARAMETERS: Record<string, ParameterSpec> = {
+	max_tokens: { check: (v) => integerIn(v, 1, Number.MAX_SAFE_INTEGER) },
+	temperature: { check: (v) => numberIn(v, 0, 1) },
+	top_p: { check: (v) => (typeof v === "number" && v > 0 && v <= 1 ? { value: v } : { error: "expected a number in (0, 1]" }) },
+	do_sample: { check: (v) => (typeof v === "boolean" ? { value: v } : { error: "expected a boolean" }) },
+	stop: { check: checkStop },
+	frequency_penalty: { check: (v) => numberIn(v, -2, 2) },
+	presence_penalty: { check: (v) => numberIn(v, -2, 2) },
+	response_format: { check: checkResponseFormat },
+	seed: { check: (v) => integerIn(v, 0, Number.MAX_SAFE_INTEGER) },
+	user_id: { check: (v) => stringOfLength(v, 6, 128) },
+	request_id: { check: (v) => stringOfLength(v, 6, 64), requestOnly: true },
+	tool_stream: { check: (v) => (typeof v === "boolean" ? { value: v } : { error: "expected a boolean" }), capability: "toolStream" },
+};
+
+/** Parameters that can be set per request or as per-model defaults */
+export const REQUEST_PARAMETER_NAMES = Object.keys(PARAMETERS);
+
+/**
+ * Read default parameters for a model from `chatglmRouter.requestDefaults`
+ * Every matching key applies, "*" patterns first and more specific ones later, so
+ * `{ "*": { "temperature": 0.2 }, "glm-4.6": { "seed": 1 } }` gives glm-4.6 both values.
+ * @param modelId Model ID without the provider prefix
+ */
+export function getRequestDefaults(modelId: string): RequestParameters {
+	const config = vscode.workspace.getConfiguration("chatglmRouter");
+	const perModel = config.get<Record<string, RequestParameters>>("requestDefaults", {}) ?? {};
+	return mergeModelDefaults(perModel, modelId);
+}
+
+/**
+ * Combine the entries of a per-model setting that match a model, the most specific winning
+ * Shared by the per-model settings whose entries are plain objects of optional fields.
+ * @param perModel Setting value keyed by model ID or "*" pattern
+ * @param modelId Model ID
+ */
+export function mergeModelDefaults<T extends object = RequestParameters>(perModel: Record<string, T>, modelId: string): T {
+	const matches = Object.entries(perModel)
+		.filter(([pattern, params]) => matchesModelPattern(pattern, modelId) && !!params && typeof params === "object")
+		.map(([pattern, params]) => ({ params, score: modelPatternSpecificity(pattern) }))
+		.sort((a, b) => a.score - b.score);
+	return Object.assign({}, ...matches.map((m) => m.params)) as T;
+}
+
+/**
+ * Decide the request parameters for a model
+ * Each parameter takes the first valid value from the request's modelOptions, the per-model
+ * defaults and the built-in defaults; max_tokens is capped at the model's output limit.
+ * @param modelId Model ID without the provider prefix
+ * @param maxOutputTokens The model's output limit
+ * @param modelOptions Request model options
+ * @param defaults Per-model defaults, usually from getRequestDefaults()
+ */
+export function resolveRequestParameters(
+	modelId: string,
+	maxOutputTokens: number,
+	modelOptions?: Record<string, unknown>,
+	defaults: RequestParameters = getRequestDefaults(modelId)
+): ResolvedRequestParameters {
+	const params: RequestParameters = {};
+	const ignored: IgnoredParameter[] = [];
+
+	for (const [name, spec] of Object.entries(PARAMETERS)) {
+		const layers: [IgnoredParameter["source"], unknown][] = [
+			["request", modelOptions?.[name]],
+			["settings", defaults[name]],
+		];
+		for (const [source, value] of layers) {
+			if (value === undefined || value === null) {
+				continue;
+			}
+			if (spec.requestOnly && source === "settings") {
+				ignored.push({ name, value, source, reason: "can only be set per request" });
+				continue;
+			}
+			if (spec.capability && !hasModelCapability(modelId, spec.capability)) {
+				// Turning an unsupported feature off needs no warning
+				if (value !== false) {
+					ignored.push({ name, value, source, reason: `not supported by ${modelId}` });
+				}
+				continue;
+			}
+			const checked = spec.check(value);
+			if ("error" in checked) {
+				ignored.push({ name, value, source, reason: checked.error });
+				continue;
+			}
+			params[name] = checked.value;
+			break;
+		}
+		if (!(name in params) && name in BUILTIN_DEFAULTS) {
+			params[name] = BUILTIN_DEFAULTS[name];
+		}
+	}
+
+	for (const name of Object.keys(defaults)) {
+		if (!(name in PARAMETERS)) {
+			ignored.push({ name, value: defaults[name], source: "settings", reason: "unknown parameter" });
+		}
+	}
+
+	params.max_tokens = Math.min(params.max_tokens as number, maxOutputTokens);
+	return { params, ignored };
+}
+
+function numberIn(value: unknown, min: number, max: number): { value: unknown } | { error: string } {
+	return typeof value === "number" && Number.isFinite(value) && value >= min && value <= max
+		? { value }
+		: { error: `expected a number in [${min}, ${max}]` };
+}
+
+function integerIn(value: unknown, min: number, max: number): { value: unknown } | { error: string } {
+	return Number.isInteger(value) && (value as number) >= min && (value as number) <= max
+		? { value }
+		: { error: `expected an integer in [${min}, ${max}]` };
+}
+
+function stringOfLength(value: unknown, min: number, max: number): { value: unknown } | { error: string } {
+	return typeof value === "string" && value.length >= min && value.length <= max
+		? { value }
+		: { error: `expected a string of ${min} to ${max} characters` };
+}
+
+/** A stop word or a list of them */
+function checkStop(value: unknown): { value: unknown } | { error: string } {
+	if (typeof value === "string" && value) {
+		return { value };
+	}
+	if (Array.isArray(value) && value.length > 0 && value.every((s) => typeof s === "string" && s)) {
+		return { value };
+	}
+	return { error: "expected a string or a list of strings" };
+}
+
+/**
+ * `{ type: "text" | "json_object" }` or `{ type: "json_schema", json_schema: { name, schema } }`;
+ * a bare type name is accepted as shorthand
+ */
+function checkResponseFormat(value: unknown): { value: unknown } | { error: string } {
+	const format = typeof value === "string" ? { type: value } : value;
+	if (!format || typeof format !== "object") {
+		return { error: "expected an object with a type" };
+	}
+	const { type, json_schema: jsonSchema } = format as { type?: unknown; json_schema?: unknown };
+	if (typeof type !== "string" || !RESPONSE_FORMAT_TYPES.includes(type)) {
+		return { error: `type must be one of ${RESPONSE_FORMAT_TYPES.join(", ")}` };
+	}
+	if (type === "json_schema") {
+		const schema = (jsonSchema as { schema?: unknown } | undefined)?.schema;
+		if (!jsonSchema || typeof jsonSchema !== "object" || !schema || typeof schema !== "object") {
+			return { error: "json_schema needs an object with a schema" };
+		}
+	}
+	return { value: format };
+}
@@ -0,0 +1,186 @@
+/**
+ * Retry policy for HTTP requests to provider endpoints
+ * Exponential backoff with jitter, honoring Retry-After and cancellation
+ */
+
+import * as vscode from "vscode";
+import { classifyApiError } from "./api-errors";
+import { RequestTimeoutError } from "./timeouts";
+import { log } from "./logger";
+
+/**
+ * Retry settings applied to chat and model-list requests
+ */
+export interface RetryPolicy {
+	/** Total attempts including the first one */
+	maxAttempts: number;
+	/** Base delay for the first retry */
+	initialDelayMs: number;
+	/** Upper bound for a single wait (also the longest Retry-After we honor) */
+	maxDelayMs: number;
+}
+
+/** HTTP statuses that indicate a transient failure worth retrying */
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+/**
+ * Non-OK HTTP response from a provider endpoint
+ */
+export class HttpStatusError extends Error {
+	constructor(
+		message: string,
+		readonly status: number,
+		readonly body: string,
+		readonly retryAfterMs?: number
+	) {
+		super(message);
+		this.name = "HttpStatusError";
+	}
+
+	/**
+	 * Build an error from a non-OK response, consuming its body
+	 * @param resp The failed response
+	 * @param prefix Message prefix, e.g. "ChatGLM Coding API error"
+	 */
+	static async fromResponse(resp: Response, prefix: string): Promise<HttpStatusError> {
+		let text = "";
+		try {
+			text = await resp.text();
+		} catch (error) {
+			log.error("Failed to read error response text", error);
+		}
+		const retryAfterMs = parseRetryAfter(resp.headers?.get("retry-after"));
+		return new HttpStatusError(
+			`${prefix}: ${resp.status} ${resp.statusText}${text ? `\n${text}` : ""}`,
+			resp.status,
+			text,
+			retryAfterMs
+		);
+	}
+}
+
+/**
+ * Read the retry policy from settings
+ */
+export function getRetryPolicy(): RetryPolicy {
+	const config = vscode.workspace.getConfiguration("chatglmRouter.retry");
+	return {
+		maxAttempts: Math.max(1, Math.floor(config.get<number>("maxAttempts", 3))),
+		initialDelayMs: Math.max(0, config.get<number>("initialDelayMs", 1000)),
+		maxDelayMs: Math.max(0, config.get<number>("maxDelayMs", 30000)),
+	};
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date)
+ * @param value Header value
+ * @param now Current time, for HTTP-date values
+ * @returns Delay in milliseconds, or undefined if absent/unparseable
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+	if (!value) {
+		return undefined;
+	}
+	const trimmed = value.trim();
+	if (/^\d+(\.\d+)?$/.test(trimmed)) {
+		return Math.round(Number(trimmed) * 1000);
+	}
+	const date = Date.parse(trimmed);
+	if (!Number.isNaN(date)) {
+		return Math.max(0, date - now);
+	}
+	return undefined;
+}
+
+/**
+ * Exponential backoff with "equal jitter": half fixed, half random
+ * @param attempt The attempt that just failed (1-based)
+ * @param policy Retry policy
+ * @param random Random source in [0, 1)
+ */
+export function computeBackoffDelay(attempt: number, policy: RetryPolicy, random: () => number = Math.random): number {
+	const exp = Math.min(policy.maxDelayMs, policy.initialDelayMs * 2 ** (attempt - 1));
+	return Math.round(exp / 2 + random() * (exp / 2));
+}
+
+/**
+ * Whether an error is a transient failure worth retrying
+ * @param err Error thrown by a request attempt
+ */
+export function isRetryableError(err: unknown): boolean {
+	if (err instanceof HttpStatusError) {
+		// Zhipu reports an exhausted balance (1113) as 429; like a rejected key, it does not recover on its own
+		const kind = classifyApiError(err);
+		return RETRYABLE_STATUSES.has(err.status) && kind !== "balance" && kind !== "auth";
+	}
+	// A stalled attempt is worth another try; the overall deadline is final
+	if (err instanceof RequestTimeoutError) {
+		return err.kind !== "total";
+	}
+	// fetch() rejects with a TypeError on network failures (DNS, connection reset/refused)
+	return err instanceof TypeError;
+}
+
+/**
+ * Wait for the given time, rejecting early with CancellationError if the token fires
+ * @param ms Delay in milliseconds
+ * @param token Optional cancellation token
+ */
+export function delay(ms: number, token?: vscode.CancellationToken): Promise<void> {
+	return new Promise<void>((resolve, reject) => {
+		if (token?.isCancellationRequested) {
+			reject(new vscode.CancellationError());
+			return;
+		}
+		const listener = token?.onCancellationRequested(() => {
+			clearTimeout(timer);
+			listener?.dispose();
+			reject(new vscode.CancellationError());
+		});
+		const timer = setTimeout(() => {
+			listener?.dispose();
+			resolve();
+		}, ms);
+	});
+}
+
+/**
+ * Run an operation, retrying transient failures according to the policy
+ * @param operation The attempt to run; receives the 1-based attempt number
+ * @param options Policy, cancellation token, log label and an optional gate that can veto further retries
+ */
+export async function runWithRetry<T>(
+	operation: (attempt: number) => Promise<T>,
+	options: {
+		policy: RetryPolicy;
+		label: string;
+		token?: vscode.CancellationToken;
+		canRetry?: () => boolean;
+	}
+): Promise<T> {
+	const { policy, label, token, canRetry } = options;
+	for (let attempt = 1; ; attempt++) {
+		try {
+			return await operation(attempt);
+		} catch (err) {
+			if (
+				attempt >= policy.maxAttempts ||
+				token?.isCancellationRequested ||
+				!isRetryableError(err) ||
+				(canRetry && !canRetry())
+			) {
+				throw err;
+			}
+			const retryAfterMs = err instanceof HttpStatusError ? err.retryAfterMs : undefined;
+			if (retryAfterMs !== undefined && retryAfterMs > policy.maxDelayMs) {
+				log.warn(`${label}: Retry-After ${retryAfterMs}ms exceeds limit, not retrying`);
+				throw err;
+			}
+			const waitMs = retryAfterMs ?? computeBackoffDelay(attempt, policy);
+			log.warn(`${label} failed (attempt ${attempt}/${policy.maxAttempts}), retrying in ${waitMs}ms`, {
+				error: err instanceof Error ? { name: err.name, message: err.message } : String(err),
+			});
+			await delay(waitMs, token);
+		}
+	}
+}
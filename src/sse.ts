@@ -0,0 +1,190 @@
+/**
+ * Server-sent events (text/event-stream) parser
+ * Follows the WHATWG event-stream interpretation rules, including CR/LF/CRLF framing,
+ * multi-line data fields, comments and the event/id/retry fields.
+ */
+
+/**
+ * A dispatched server-sent event
+ */
+export interface SSEEvent {
+	/** Event type; "message" when the stream sends no event field */
+	event: string;
+	/** Data lines joined with "\n" */
+	data: string;
+	/** Last event ID seen so far, if any */
+	id?: string;
+}
+
+/**
+ * Counters for lines the parser did not turn into event data
+ */
+export interface SSEParserStats {
+	/** Comment lines (": ...") such as keep-alives */
+	comments: number;
+	/** Lines with unknown fields or invalid values, ignored per spec */
+	droppedLines: number;
+}
+
+/**
+ * Incremental event-stream parser. Feed decoded text as it arrives; complete events are returned.
+ */
+export class SSEParser {
+	private _buffer = "";
+	private _pendingCR = false;
+	private _isFirstChunk = true;
+
+	private _eventType = "";
+	private _dataLines: string[] = [];
+	private _lastEventId: string | undefined;
+	private _retry: number | undefined;
+
+	private readonly _stats: SSEParserStats = { comments: 0, droppedLines: 0 };
+
+	/**
+	 * @param onDroppedLine Called for every ignored line, for diagnostics
+	 */
+	constructor(private readonly onDroppedLine?: (line: string, reason: string) => void) {}
+
+	/** Parser counters */
+	get stats(): Readonly<SSEParserStats> {
+		return this._stats;
+	}
+
+	/** Reconnection time requested by the server via the retry field */
+	get retry(): number | undefined {
+		return this._retry;
+	}
+
+	/**
+	 * Parse the next chunk of decoded text
+	 * @param chunk Decoded text (may split lines or CRLF pairs arbitrarily)
+	 * @returns Events completed by this chunk
+	 */
+	feed(chunk: string): SSEEvent[] {
+		if (this._isFirstChunk && chunk.length > 0) {
+			this._isFirstChunk = false;
+			if (chunk.charCodeAt(0) === 0xfeff) {
+				chunk = chunk.slice(1);
+			}
+		}
+		// A CR ending the previous chunk may be the first half of a CRLF pair
+		if (this._pendingCR) {
+			this._pendingCR = false;
+			if (chunk.startsWith("\n")) {
+				chunk = chunk.slice(1);
+			}
+		}
+
+		this._buffer += chunk;
+		const events: SSEEvent[] = [];
+		let start = 0;
+		for (let i = 0; i < this._buffer.length; i++) {
+			const ch = this._buffer[i];
+			if (ch !== "\n" && ch !== "\r") {
+				continue;
+			}
+			const line = this._buffer.slice(start, i);
+			if (ch === "\r") {
+				if (i + 1 < this._buffer.length) {
+					if (this._buffer[i + 1] === "\n") {
+						i++;
+					}
+				} else {
+					this._pendingCR = true;
+				}
+			}
+			start = i + 1;
+			const event = this.processLine(line);
+			if (event) {
+				events.push(event);
+			}
+		}
+		this._buffer = this._buffer.slice(start);
+		return events;
+	}
+
+	/**
+	 * Signal end of stream. A trailing event without the final blank line is dispatched
+	 * (servers commonly omit it), which is more lenient than the spec.
+	 * @returns The trailing event, if any
+	 */
+	end(): SSEEvent[] {
+		const events: SSEEvent[] = [];
+		if (this._buffer.length > 0) {
+			const event = this.processLine(this._buffer);
+			this._buffer = "";
+			if (event) {
+				events.push(event);
+			}
+		}
+		const trailing = this.dispatch();
+		if (trailing) {
+			events.push(trailing);
+		}
+		return events;
+	}
+
+	private processLine(line: string): SSEEvent | undefined {
+		if (line === "") {
+			return this.dispatch();
+		}
+		if (line.startsWith(":")) {
+			this._stats.comments++;
+			return undefined;
+		}
+
+		const colon = line.indexOf(":");
+		const field = colon === -1 ? line : line.slice(0, colon);
+		let value = colon === -1 ? "" : line.slice(colon + 1);
+		if (value.startsWith(" ")) {
+			value = value.slice(1);
+		}
+
+		switch (field) {
+			case "event":
+				this._eventType = value;
+				break;
+			case "data":
+				this._dataLines.push(value);
+				break;
+			case "id":
+				if (value.includes("\0")) {
+					this.drop(line, "id contains NULL");
+				} else {
+					this._lastEventId = value;
+				}
+				break;
+			case "retry":
+				if (/^\d+$/.test(value)) {
+					this._retry = Number(value);
+				} else {
+					this.drop(line, "non-numeric retry");
+				}
+				break;
+			default:
+				this.drop(line, "unknown field");
+		}
+		return undefined;
+	}
+
+	private dispatch(): SSEEvent | undefined {
+		const dataLines = this._dataLines;
+		const eventType = this._eventType;
+		this._dataLines = [];
+		this._eventType = "";
+		if (dataLines.length === 0) {
+			return undefined;
+		}
+		return {
+			event: eventType || "message",
+			data: dataLines.join("\n"),
+			id: this._lastEventId,
+		};
+	}
+
+	private drop(line: string, reason: string): void {
+		this._stats.droppedLines++;
+		this.onDroppedLine?.(line, reason);
+	}
+}
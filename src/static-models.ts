@@ -6,6 +6,7 @@
  */
 
 import type { HFModelItem } from "./types";
+import { log } from "./logger";
 
 /**
  * Static list of ChatGLM models as fallback
@@ -22,6 +23,6 @@ export const STATIC_CHATGLM_MODELS: HFModelItem[] = [];
  */
 export function getStaticModelsForProvider(providerId: string): HFModelItem[] {
 	// Return empty array - let the API fetch the latest models
-	console.log(`[ChatGLM Router] No static models for ${providerId}, will fetch from API`);
+	log.info(`No static models for ${providerId}, will fetch from API`);
 	return [];
 }
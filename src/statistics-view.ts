@@ -113,16 +113,46 @@ export class StatisticsViewProvider {
 
 		const items: vscode.QuickPickItem[] = modelStats.map((m) => ({
 			label: m.modelId,
-			description: `${m.requestCount} requests`,
-			detail: `${m.totalInputTokens + m.totalOutputTokens} tokens (in: ${m.totalInputTokens}, out: ${m.totalOutputTokens})`,
+			description: `${m.requestCount} requests${m.cancelledCount ? ` (${m.cancelledCount} cancelled)` : ""}${m.timedOutCount ? ` (${m.timedOutCount} timed out)` : ""}`,
+			detail: `${m.totalInputTokens + m.totalOutputTokens} tokens (in: ${m.totalInputTokens}, out: ${m.totalOutputTokens}${this.formatUsageNotes(m)})`,
 		}));
 
+		// Usage per API key profile
+		const profileStats = await this.statsManager.getProfileStats(providerId);
+		if (profileStats.size > 0) {
+			items.push({ label: "Profiles", kind: vscode.QuickPickItemKind.Separator });
+			for (const [profile, p] of profileStats) {
+				items.push({
+					label: `$(account) ${profile}`,
+					description: `${p.requestCount} requests, ${p.totalTokens} tokens`,
+				});
+			}
+		}
+
 		await vscode.window.showQuickPick(items, {
 			placeHolder: `Statistics for ${providerId}`,
 			canPickMany: false,
 		});
 	}
 
+	/**
+	 * Describe cached, reasoning and locally estimated token portions of a model's totals
+	 */
+	private formatUsageNotes(m: ModelUsageStats): string {
+		let notes = "";
+		if (m.totalCachedTokens) {
+			notes += `, cached: ${m.totalCachedTokens}`;
+		}
+		if (m.totalReasoningTokens) {
+			notes += `, reasoning: ${m.totalReasoningTokens}`;
+		}
+		const estimated = (m.estimatedInputTokens ?? 0) + (m.estimatedOutputTokens ?? 0);
+		if (estimated > 0) {
+			notes += `, estimated: ${estimated}`;
+		}
+		return notes;
+	}
+
 	/**
 	 * Reset all statistics with confirmation
 	 */
@@ -169,6 +199,9 @@ export class StatisticsViewProvider {
 			outputChannel.appendLine(`--- ${providerId} ---`);
 			outputChannel.appendLine(`Total Requests: ${providerStats.totalRequests}`);
 			outputChannel.appendLine(`Total Tokens: ${providerStats.totalTokens}`);
+			for (const [profile, p] of Object.entries(providerStats.profiles ?? {})) {
+				outputChannel.appendLine(`Profile ${profile}: ${p.requestCount} requests, ${p.totalTokens} tokens`);
+			}
 			outputChannel.appendLine("");
 
 			for (const [modelId, modelStats] of Object.entries(providerStats.models)) {
@@ -178,8 +211,8 @@ export class StatisticsViewProvider {
 					: "Never";
 
 				outputChannel.appendLine(`  ${modelId}`);
-				outputChannel.appendLine(`    Requests: ${modelStats.requestCount}`);
-				outputChannel.appendLine(`    Tokens: ${totalTokens} (in: ${modelStats.totalInputTokens}, out: ${modelStats.totalOutputTokens})`);
+				outputChannel.appendLine(`    Requests: ${modelStats.requestCount}${modelStats.cancelledCount ? ` (${modelStats.cancelledCount} cancelled)` : ""}${modelStats.timedOutCount ? ` (${modelStats.timedOutCount} timed out)` : ""}`);
+				outputChannel.appendLine(`    Tokens: ${totalTokens} (in: ${modelStats.totalInputTokens}, out: ${modelStats.totalOutputTokens}${this.formatUsageNotes(modelStats)})`);
 				outputChannel.appendLine(`    Last Used: ${lastUsed}`);
 				outputChannel.appendLine("");
 			}
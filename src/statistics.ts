@@ -13,6 +13,46 @@ export interface ModelUsageStats {
 	requestCount: number;
 	totalInputTokens: number;
 	totalOutputTokens: number;
+	/** Prompt tokens served from the provider-side cache (server-reported only) */
+	totalCachedTokens?: number;
+	/** Reasoning (thinking) tokens, included in totalOutputTokens */
+	totalReasoningTokens?: number;
+	/** Portion of totalInputTokens that was estimated locally because the server sent no usage */
+	estimatedInputTokens?: number;
+	/** Portion of totalOutputTokens that was estimated locally because the server sent no usage */
+	estimatedOutputTokens?: number;
+	/** Requests cancelled by the user (included in requestCount, with their partial tokens) */
+	cancelledCount?: number;
+	/** Requests that hit a first-token, idle or total timeout (included in requestCount) */
+	timedOutCount?: number;
+	lastUsed: number; // Timestamp
+}
+
+/**
+ * Token usage of a single request
+ */
+export interface RequestUsage {
+	inputTokens: number;
+	outputTokens: number;
+	cachedTokens?: number;
+	/** Reasoning tokens, a subset of outputTokens */
+	reasoningTokens?: number;
+	/** True when inputTokens is a local estimate rather than the server-reported prompt_tokens */
+	inputEstimated?: boolean;
+	/** True when outputTokens is a local estimate rather than the server-reported completion_tokens */
+	outputEstimated?: boolean;
+	/** True when the user cancelled the request mid-stream; outputTokens is the partial output */
+	cancelled?: boolean;
+	/** True when the request was aborted by a timeout; outputTokens is the partial output */
+	timedOut?: boolean;
+}
+
+/**
+ * Usage of one API key profile on a provider
+ */
+export interface ProfileUsageStats {
+	requestCount: number;
+	totalTokens: number;
 	lastUsed: number; // Timestamp
 }
 
@@ -28,6 +68,8 @@ export interface StatisticsData {
 			};
 			totalRequests: number;
 			totalTokens: number;
+			/** Usage split by API key profile (absent in data recorded before profiles existed) */
+			profiles?: Record<string, ProfileUsageStats>;
 		};
 	};
 }
@@ -69,15 +111,16 @@ export class StatisticsManager {
 	 * Record a request with token usage
 	 * @param providerId Provider identifier
 	 * @param modelId Model identifier
-	 * @param inputTokens Input token count (estimated)
-	 * @param outputTokens Output token count
+	 * @param usage Token usage (server-reported or estimated)
+	 * @param profile API key profile that served the request
 	 */
 	async recordRequest(
 		providerId: string,
 		modelId: string,
-		inputTokens: number,
-		outputTokens: number
+		usage: RequestUsage,
+		profile?: string
 	): Promise<void> {
+		const { inputTokens, outputTokens } = usage;
 		const stats = await this.getStatistics();
 
 		// Initialize provider if not exists
@@ -106,11 +149,42 @@ export class StatisticsManager {
 		modelStats.requestCount++;
 		modelStats.totalInputTokens += inputTokens;
 		modelStats.totalOutputTokens += outputTokens;
+		if (usage.cachedTokens) {
+			modelStats.totalCachedTokens = (modelStats.totalCachedTokens ?? 0) + usage.cachedTokens;
+		}
+		if (usage.reasoningTokens) {
+			modelStats.totalReasoningTokens = (modelStats.totalReasoningTokens ?? 0) + usage.reasoningTokens;
+		}
+		if (usage.inputEstimated) {
+			modelStats.estimatedInputTokens = (modelStats.estimatedInputTokens ?? 0) + inputTokens;
+		}
+		if (usage.outputEstimated) {
+			modelStats.estimatedOutputTokens = (modelStats.estimatedOutputTokens ?? 0) + outputTokens;
+		}
+		if (usage.cancelled) {
+			modelStats.cancelledCount = (modelStats.cancelledCount ?? 0) + 1;
+		}
+		if (usage.timedOut) {
+			modelStats.timedOutCount = (modelStats.timedOutCount ?? 0) + 1;
+		}
 		modelStats.lastUsed = Date.now();
 
 		provider.totalRequests++;
 		provider.totalTokens += inputTokens + outputTokens;
 
+		if (profile) {
+			if (!provider.profiles) {
+				provider.profiles = {};
+			}
+			if (!provider.profiles[profile]) {
+				provider.profiles[profile] = { requestCount: 0, totalTokens: 0, lastUsed: 0 };
+			}
+			const profileStats = provider.profiles[profile];
+			profileStats.requestCount++;
+			profileStats.totalTokens += inputTokens + outputTokens;
+			profileStats.lastUsed = modelStats.lastUsed;
+		}
+
 		await this.context.globalState.update(StatisticsManager.STORAGE_KEY, stats);
 
 		// Emit event to notify listeners
@@ -144,6 +218,16 @@ export class StatisticsManager {
 		return Object.values(providerStats.models);
 	}
 
+	/**
+	 * Get per-profile usage for a provider
+	 * @param providerId Provider identifier
+	 * @returns Map of profile name to usage
+	 */
+	async getProfileStats(providerId: string): Promise<Map<string, ProfileUsageStats>> {
+		const stats = await this.getStatistics();
+		return new Map(Object.entries(stats.providers[providerId]?.profiles ?? {}));
+	}
+
 	/**
 	 * Get summary statistics for all providers
 	 * @returns Map of provider ID to summary
@@ -4,6 +4,8 @@
 
 import * as vscode from "vscode";
 import { StatisticsManager } from "./statistics";
+import type { ApiKeyStore } from "./api-keys";
+import { getEnabledProviders } from "./config";
 
 export class StatisticsStatusBarController {
 	private statusBarItem: vscode.StatusBarItem;
@@ -12,7 +14,8 @@ export class StatisticsStatusBarController {
 
 	constructor(
 		private readonly context: vscode.ExtensionContext,
-		private readonly statsManager: StatisticsManager
+		private readonly statsManager: StatisticsManager,
+		private readonly apiKeys?: ApiKeyStore
 	) {
 		// Create status bar item (right side, priority 100)
 		this.statusBarItem = vscode.window.createStatusBarItem(
@@ -91,7 +94,7 @@ export class StatisticsStatusBarController {
 			showRequests
 		);
 
-		this.statusBarItem.tooltip = this.formatTooltip(weekStats, monthStats);
+		this.statusBarItem.tooltip = this.formatTooltip(weekStats, monthStats, await this.formatKeyPools());
 		this.statusBarItem.show();
 	}
 
@@ -129,18 +132,38 @@ export class StatisticsStatusBarController {
 		}
 	}
 
+	/**
+	 * Describe the key in use for providers holding more than one API key
+	 * @returns One line per provider with a key pool
+	 */
+	private async formatKeyPools(): Promise<string> {
+		if (!this.apiKeys) {
+			return "";
+		}
+		let lines = "";
+		for (const provider of getEnabledProviders()) {
+			const pool = await this.apiKeys.getPoolStatus(provider);
+			if (pool.total > 1) {
+				lines += `${provider.name}: Key ${pool.activeIndex + 1}/${pool.total}`;
+				lines += pool.coolingDown > 0 ? ` (${pool.coolingDown} 个冷却中)\n` : "\n";
+			}
+		}
+		return lines;
+	}
+
 	/**
 	 * Format tooltip
 	 */
 	private formatTooltip(
 		week: { totalRequests: number; totalTokens: number },
-		month: { totalRequests: number; totalTokens: number }
+		month: { totalRequests: number; totalTokens: number },
+		keyPools: string
 	): string {
 		return `ChatGLM Router 用量统计
 ━━━━━━━━━━━━━━━━━━━━
 本周: ${StatisticsManager.formatTokenCount(week.totalTokens, "full")} tokens (${week.totalRequests} 请求)
 本月: ${StatisticsManager.formatTokenCount(month.totalTokens, "full")} tokens (${month.totalRequests} 请求)
-
+${this.apiKeys ? `API Key 配置: ${this.apiKeys.activeProfile}\n` : ""}${keyPools}
 点击查看详细统计`;
 	}
 
@@ -0,0 +1,616 @@
+/**
+ * Per-request streaming state for ChatGLM Router
+ * Parses the SSE response of a single chat request and reports text and tool call parts
+ */
+
+import * as vscode from "vscode";
+
+import type { OpenAIUsage, ToolCallBuffer } from "./types";
+import { tryParseJSONObject } from "./utils";
+import { parseJSONObjectTolerant } from "./json-repair";
+import { coerceToolInput, validateToolInput } from "./tool-schema";
+import { SSEParser, type SSEEvent } from "./sse";
+import { estimateTextTokens } from "./tokenizer";
+import { formatCitations, parseWebSearchResults, type WebSearchResult } from "./web-search";
+import { log } from "./logger";
+
+/**
+ * Error event sent by the API in the middle of a stream (e.g. `{"error":{...}}` chunks)
+ */
+export class StreamApiError extends Error {
+	constructor(
+		message: string,
+		readonly code?: string,
+		readonly payload?: unknown
+	) {
+		super(message);
+		this.name = "StreamApiError";
+	}
+}
+
+/**
+ * State for one streamed chat response.
+ * A new session is created for every request (and retry attempt) so that concurrent
+ * requests never share tool-call buffers or token counts.
+ */
+export class ChatStreamSession {
+	/** Buffer for assembling streamed tool calls by index. */
+	private _toolCallBuffers = new Map<number, ToolCallBuffer>();
+
+	/** Indices for which a tool call has been fully emitted. */
+	private _completedToolCallIndices = new Set<number>();
+
+	/** Track if we emitted any assistant text before seeing tool calls (SSE-like begin-tool-calls hint). */
+	private _hasEmittedAssistantText = false;
+
+	/** Track if we emitted the begin-tool-calls whitespace flush. */
+	private _emittedBeginToolCallsHint = false;
+
+	// Lightweight tokenizer state for tool calls embedded in text
+	private _textToolParserBuffer = "";
+	private _textToolActive:
+		| undefined
+		| {
+			name?: string;
+			index?: number;
+			argBuffer: string;
+			emitted?: boolean;
+		};
+	private _emittedTextToolCallKeys = new Set<string>();
+	private _emittedTextToolCallIds = new Set<string>();
+
+	/** Track output tokens for statistics */
+	private _outputTokenCount = 0;
+
+	/** Track reasoning (thinking) tokens, a subset of the output tokens */
+	private _reasoningTokenCount = 0;
+
+	/** Server-reported usage from the stream, if any chunk carried one */
+	private _usage: OpenAIUsage | undefined;
+
+	/** Events whose data was not valid JSON */
+	private _malformedEvents = 0;
+
+	/** Web search results the answer is based on, cited once the answer ends */
+	private _webSearchResults: WebSearchResult[] = [];
+	private _citationsEmitted = false;
+
+	/** Original input schemas of the request's tools, by name */
+	private readonly _toolSchemas = new Map<string, object | undefined>();
+
+	/**
+	 * @param progress Progress reporter the parsed parts are emitted to
+	 * @param tools Tools offered in the request; emitted arguments are coerced to and checked against their schemas
+	 */
+	constructor(
+		private readonly progress: vscode.Progress<vscode.LanguageModelResponsePart>,
+		tools: readonly vscode.LanguageModelChatTool[] = [],
+	) {
+		for (const tool of tools) {
+			this._toolSchemas.set(tool.name, tool.inputSchema);
+		}
+	}
+
+	/** Estimated output tokens seen so far (text and tool call arguments) */
+	get outputTokenCount(): number {
+		return this._outputTokenCount;
+	}
+
+	/** Estimated reasoning tokens seen so far (included in outputTokenCount) */
+	get reasoningTokenCount(): number {
+		return this._reasoningTokenCount;
+	}
+
+	/** Usage block reported by the server, if any */
+	get usage(): OpenAIUsage | undefined {
+		return this._usage;
+	}
+
+	/**
+	 * Read and parse the event-stream response and report parts
+	 * @param responseBody The readable stream body
+	 * @param token Cancellation token; the body is also aborted via the request's AbortSignal
+	 * @param onData Called whenever a chunk arrives, e.g. to restart an idle timer
+	 */
+	async processStreamingResponse(
+		responseBody: ReadableStream<Uint8Array>,
+		token: vscode.CancellationToken,
+		onData?: () => void,
+	): Promise<void> {
+		const reader = responseBody.getReader();
+		const decoder = new TextDecoder();
+		const parser = new SSEParser((line, reason) => {
+			log.warn("Dropped SSE line", { reason, snippet: line.slice(0, 200) });
+		});
+
+		try {
+			while (!token.isCancellationRequested) {
+				const { done, value } = await reader.read();
+				if (done) {
+					for (const event of parser.feed(decoder.decode())) {
+						await this.processEvent(event);
+					}
+					for (const event of parser.end()) {
+						await this.processEvent(event);
+					}
+					break;
+				}
+
+				onData?.();
+				for (const event of parser.feed(decoder.decode(value, { stream: true }))) {
+					await this.processEvent(event);
+				}
+			}
+			if (token.isCancellationRequested) {
+				throw new vscode.CancellationError();
+			}
+		} finally {
+			reader.releaseLock();
+			const { comments, droppedLines } = parser.stats;
+			if (droppedLines > 0 || this._malformedEvents > 0) {
+				log.warn("SSE stream diagnostics", {
+					droppedLines,
+					malformedEvents: this._malformedEvents,
+					comments,
+				});
+			}
+		}
+	}
+
+	/**
+	 * Handle one server-sent event: the [DONE] sentinel, an error payload or a delta chunk
+	 * @param event Parsed SSE event
+	 */
+	private async processEvent(event: SSEEvent): Promise<void> {
+		const data = event.data.trim();
+		log.trace("SSE event", { event: event.event, data });
+		if (data === "[DONE]") {
+			await this.flushToolCallBuffers(/*throwOnInvalid*/ false);
+			await this.flushActiveTextToolCall();
+			return;
+		}
+
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(data);
+		} catch {
+			// Some gateways send one chunk per data line without the blank line between events;
+			// the joined lines are then not JSON, but each line on its own is
+			const lines = data.split("\n").filter((line) => line.trim());
+			if (lines.length > 1) {
+				for (const line of lines) {
+					await this.processEvent({ ...event, data: line });
+				}
+				return;
+			}
+			if (event.event === "error") {
+				throw new StreamApiError(`API error in stream: ${data.slice(0, 500)}`);
+			}
+			this._malformedEvents++;
+			log.warn("Ignoring malformed SSE event", { event: event.event, snippet: data.slice(0, 200) });
+			return;
+		}
+		if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+			this._malformedEvents++;
+			log.warn("Ignoring non-object SSE event", { event: event.event, snippet: data.slice(0, 200) });
+			return;
+		}
+
+		const chunk = parsed as Record<string, unknown>;
+		if (chunk.error !== undefined || event.event === "error") {
+			throw this.toStreamApiError(chunk);
+		}
+		await this.processDelta(chunk);
+	}
+
+	/** Build an error from a Zhipu/OpenAI style `{"error":{"code","message"}}` payload */
+	private toStreamApiError(chunk: Record<string, unknown>): StreamApiError {
+		const error = (chunk.error && typeof chunk.error === "object" ? chunk.error : chunk) as Record<string, unknown>;
+		const code = error.code !== undefined ? String(error.code) : undefined;
+		const message = typeof error.message === "string" ? error.message : JSON.stringify(chunk).slice(0, 500);
+		log.error("API error event in stream", { code, message });
+		return new StreamApiError(`API error in stream${code ? ` (${code})` : ""}: ${message}`, code, chunk);
+	}
+
+	/**
+	 * Handle a single streamed delta chunk, emitting text and tool call parts
+	 * @param delta Parsed SSE chunk
+	 */
+	async processDelta(
+		delta: Record<string, unknown>,
+	): Promise<boolean> {
+		let emitted = false;
+
+		// Usage usually arrives on the final chunk, which may have an empty choices array
+		const usage = delta.usage as OpenAIUsage | undefined;
+		if (usage && typeof usage === "object") {
+			this._usage = usage;
+		}
+
+		// Zhipu's built-in web search reports its results in a top-level field
+		for (const result of parseWebSearchResults(delta.web_search)) {
+			if (!this._webSearchResults.some((r) => r.link === result.link)) {
+				this._webSearchResults.push(result);
+			}
+		}
+
+		const choice = (delta.choices as Record<string, unknown>[] | undefined)?.[0];
+		if (!choice) { return false; }
+
+		const deltaObj = choice.delta as Record<string, unknown> | undefined;
+
+		// GLM-4.5 and later stream their reasoning as delta.reasoning_content
+		const reasoning = deltaObj?.reasoning_content;
+		if (typeof reasoning === "string" && reasoning) {
+			const reasoningTokens = estimateTextTokens(reasoning);
+			this._reasoningTokenCount += reasoningTokens;
+			// Reasoning is billed as completion tokens
+			this._outputTokenCount += reasoningTokens;
+			if (this.reportThinking(reasoning)) {
+				emitted = true;
+			}
+		}
+
+		// report thinking progress if backend provides it in a non-standard `thinking` field
+		const maybeThinking = (choice as Record<string, unknown> | undefined)?.thinking ?? (deltaObj as Record<string, unknown> | undefined)?.thinking;
+		if (maybeThinking && typeof maybeThinking === "object") {
+			const mt = maybeThinking as Record<string, unknown>;
+			const text = typeof mt["text"] === "string" ? (mt["text"] as string) : "";
+			const id = typeof mt["id"] === "string" ? (mt["id"] as string) : undefined;
+			if (text && this.reportThinking(text, id, mt["metadata"])) {
+				emitted = true;
+			}
+		} else if (typeof maybeThinking === "string" && maybeThinking) {
+			if (this.reportThinking(maybeThinking)) {
+				emitted = true;
+			}
+		}
+
+		if (deltaObj?.content) {
+			const content = String(deltaObj.content);
+			const res = this.processTextContent(content);
+			if (res.emittedText) {
+				this._hasEmittedAssistantText = true;
+			}
+			if (res.emittedAny) {
+				emitted = true;
+			}
+			// Count output tokens (estimate until the usage block arrives)
+			this._outputTokenCount += estimateTextTokens(content);
+		}
+
+		if (deltaObj?.tool_calls) {
+			const toolCalls = deltaObj.tool_calls as Array<Record<string, unknown>>;
+
+			if (!this._emittedBeginToolCallsHint && this._hasEmittedAssistantText && toolCalls.length > 0) {
+				this.progress.report(new vscode.LanguageModelTextPart(" "));
+				this._emittedBeginToolCallsHint = true;
+			}
+
+			for (const tc of toolCalls) {
+				const idx = (tc.index as number) ?? 0;
+				if (this._completedToolCallIndices.has(idx)) {
+					continue;
+				}
+				const buf = this._toolCallBuffers.get(idx) ?? { args: "" };
+				if (tc.id && typeof tc.id === "string") {
+					buf.id = tc.id as string;
+				}
+				const func = tc.function as Record<string, unknown> | undefined;
+				if (func?.name && typeof func.name === "string") {
+					buf.name = func.name as string;
+				}
+				if (typeof func?.arguments === "string") {
+					buf.args += func.arguments as string;
+					// Count tool call arguments as output tokens
+					this._outputTokenCount += estimateTextTokens(func.arguments as string);
+				}
+				this._toolCallBuffers.set(idx, buf);
+				await this.tryEmitBufferedToolCall(idx);
+			}
+		}
+
+		const finish = (choice.finish_reason as string | undefined) ?? undefined;
+		// "length": output hit max_tokens, possibly in the middle of the arguments
+		if (finish === "tool_calls" || finish === "stop" || finish === "length") {
+			await this.flushToolCallBuffers(/*throwOnInvalid*/ true);
+		}
+		// Sources belong after the final answer, not before a round of tool calls
+		if (finish === "stop" || finish === "length") {
+			this.flushCitations();
+		}
+		return emitted;
+	}
+
+	/**
+	 * Report the web search results as a list of sources after the answer, once
+	 */
+	private flushCitations(): void {
+		if (this._citationsEmitted || this._webSearchResults.length === 0) {
+			return;
+		}
+		this._citationsEmitted = true;
+		this.progress.report(new vscode.LanguageModelTextPart(formatCitations(this._webSearchResults)));
+	}
+
+	/**
+	 * Report reasoning text as a LanguageModelThinkingPart when the host supports it
+	 * (the class is not in the stable API typings, so it is looked up at runtime)
+	 * @returns Whether a part was reported
+	 */
+	private reportThinking(text: string, id?: string, metadata?: unknown): boolean {
+		const vsAny = (vscode as unknown as Record<string, unknown>);
+		const ThinkingCtor = vsAny["LanguageModelThinkingPart"] as
+			| (new (text: string, id?: string, metadata?: unknown) => unknown)
+			| undefined;
+		if (!ThinkingCtor) {
+			return false;
+		}
+		try {
+			this.progress.report(new ThinkingCtor(text, id, metadata) as unknown as vscode.LanguageModelResponsePart);
+			return true;
+		} catch (e) {
+			log.warn("Failed to report thinking part", e);
+			return false;
+		}
+	}
+
+	/**
+	 * Process streamed text content for inline tool-call control tokens
+	 */
+	private processTextContent(
+		input: string,
+	): { emittedText: boolean; emittedAny: boolean } {
+		const BEGIN = "<|tool_call_begin|>";
+		const ARG_BEGIN = "<|tool_call_argument_begin|>";
+		const END = "<|tool_call_end|>";
+
+		// Branches below re-buffer an incomplete control token for the next chunk
+		let data = this._textToolParserBuffer + input;
+		this._textToolParserBuffer = "";
+		let emittedText = false;
+		let emittedAny = false;
+		let visibleOut = "";
+
+		while (data.length > 0) {
+			if (!this._textToolActive) {
+				const b = data.indexOf(BEGIN);
+				if (b === -1) {
+					const longestPartialPrefix = partialTokenLength(data, BEGIN);
+					if (longestPartialPrefix > 0) {
+						const visible = data.slice(0, data.length - longestPartialPrefix);
+						if (visible) { visibleOut += this.stripControlTokens(visible); }
+						this._textToolParserBuffer = data.slice(data.length - longestPartialPrefix);
+						data = "";
+						break;
+					} else {
+						visibleOut += this.stripControlTokens(data);
+						data = "";
+						break;
+					}
+				}
+				const pre = data.slice(0, b);
+				if (pre) {
+					visibleOut += this.stripControlTokens(pre);
+				}
+				data = data.slice(b + BEGIN.length);
+
+				const a = data.indexOf(ARG_BEGIN);
+				const e = data.indexOf(END);
+				let delimIdx = -1;
+				let delimKind: "arg" | "end" | undefined = undefined;
+				if (a !== -1 && (e === -1 || a < e)) { delimIdx = a; delimKind = "arg"; }
+				else if (e !== -1) { delimIdx = e; delimKind = "end"; }
+				else {
+					this._textToolParserBuffer = BEGIN + data;
+					data = "";
+					break;
+				}
+
+				const header = data.slice(0, delimIdx).trim();
+				const m = header.match(/^([A-Za-z0-9_\-.]+)(?::(\d+))?/);
+				const name = m?.[1] ?? undefined;
+				const index = m?.[2] ? Number(m?.[2]) : undefined;
+				this._textToolActive = { name, index, argBuffer: "", emitted: false };
+				if (delimKind === "arg") {
+					data = data.slice(delimIdx + ARG_BEGIN.length);
+				} else {
+					data = data.slice(delimIdx + END.length);
+					const did = this.emitTextToolCallIfValid(this._textToolActive, "{}");
+					if (did) {
+						this._textToolActive.emitted = true;
+						emittedAny = true;
+					}
+					this._textToolActive = undefined;
+				}
+				continue;
+			}
+
+			const e2 = data.indexOf(END);
+			if (e2 === -1) {
+				// Hold back a partial END token so it is not parsed as arguments
+				const partial = partialTokenLength(data, END);
+				this._textToolParserBuffer = data.slice(data.length - partial);
+				this._textToolActive.argBuffer += data.slice(0, data.length - partial);
+				if (!this._textToolActive.emitted) {
+					const did = this.emitTextToolCallIfValid(this._textToolActive, this._textToolActive.argBuffer);
+					if (did) {
+						this._textToolActive.emitted = true;
+						emittedAny = true;
+					}
+				}
+				data = "";
+				break;
+			} else {
+				this._textToolActive.argBuffer += data.slice(0, e2);
+				data = data.slice(e2 + END.length);
+				if (!this._textToolActive.emitted) {
+					const did = this.emitTextToolCallIfValid(this._textToolActive, this._textToolActive.argBuffer);
+					if (did) {
+						emittedAny = true;
+					}
+				}
+				this._textToolActive = undefined;
+				continue;
+			}
+		}
+
+		const textToEmit = visibleOut;
+		if (textToEmit && textToEmit.length > 0) {
+			this.progress.report(new vscode.LanguageModelTextPart(textToEmit));
+			emittedText = true;
+			emittedAny = true;
+		}
+
+		return { emittedText, emittedAny };
+	}
+
+	private emitTextToolCallIfValid(
+		call: { name?: string; index?: number; argBuffer: string; emitted?: boolean },
+		argText: string,
+	): boolean {
+		const name = call.name ?? "unknown_tool";
+		const parsed = tryParseJSONObject(argText);
+		if (!parsed.ok) {
+			return false;
+		}
+		const canonical = JSON.stringify(parsed.value);
+		const key = `${name}:${canonical}`;
+		if (typeof call.index === "number") {
+			const idKey = `${name}:${call.index}`;
+			if (this._emittedTextToolCallIds.has(idKey)) {
+				return false;
+			}
+			this._emittedTextToolCallIds.add(idKey);
+		} else if (this._emittedTextToolCallKeys.has(key)) {
+			return false;
+		}
+		this._emittedTextToolCallKeys.add(key);
+		const id = `tct_${Math.random().toString(36).slice(2, 10)}`;
+		this.reportToolCall(id, name, this.checkToolInput(name, parsed.value));
+		return true;
+	}
+
+	/**
+	 * Coerce tool-call arguments to the tool's schema
+	 * @returns The arguments to emit and what still violates the schema
+	 */
+	private checkToolInput(name: string, input: Record<string, unknown>): { input: Record<string, unknown>; problems: string[] } {
+		const schema = this._toolSchemas.get(name);
+		if (!schema) {
+			return { input, problems: [] };
+		}
+		const coerced = coerceToolInput(input, schema);
+		if (coerced.changes.length > 0) {
+			log.debug("Coerced tool call arguments", { name, changes: coerced.changes });
+		}
+		return { input: coerced.value, problems: validateToolInput(coerced.value, schema) };
+	}
+
+	/** Emit a completed tool call to the host */
+	private reportToolCall(id: string, name: string, checked: { input: Record<string, unknown>; problems: string[] }): void {
+		const { input, problems } = checked;
+		if (problems.length > 0) {
+			log.warn("Tool call arguments do not match the tool schema", { id, name, problems, input });
+		}
+		log.trace("Emitted tool call", { id, name, input });
+		this.progress.report(new vscode.LanguageModelToolCallPart(id, name, input));
+	}
+
+	private async flushActiveTextToolCall(
+	): Promise<void> {
+		if (!this._textToolActive) {
+			return;
+		}
+		const argText = this._textToolActive.argBuffer;
+		const parsed = tryParseJSONObject(argText);
+		if (!parsed.ok) {
+			return;
+		}
+		this.emitTextToolCallIfValid(this._textToolActive, argText);
+		this._textToolActive = undefined;
+	}
+
+	private async tryEmitBufferedToolCall(
+		index: number,
+	): Promise<void> {
+		const buf = this._toolCallBuffers.get(index);
+		if (!buf) {
+			return;
+		}
+		if (!buf.name) {
+			return;
+		}
+		const canParse = tryParseJSONObject(buf.args);
+		if (!canParse.ok) {
+			return;
+		}
+		const id = buf.id ?? `call_${Math.random().toString(36).slice(2, 10)}`;
+		const parameters = canParse.value;
+		try {
+			const canonical = JSON.stringify(parameters);
+			this._emittedTextToolCallKeys.add(`${buf.name}:${canonical}`);
+		} catch { /* ignore */ }
+		this.reportToolCall(id, buf.name, this.checkToolInput(buf.name, parameters));
+		this._toolCallBuffers.delete(index);
+		this._completedToolCallIndices.add(index);
+	}
+
+	private async flushToolCallBuffers(
+		throwOnInvalid: boolean,
+	): Promise<void> {
+		if (this._toolCallBuffers.size === 0) {
+			return;
+		}
+		for (const [idx, buf] of Array.from(this._toolCallBuffers.entries())) {
+			const name = buf.name ?? "unknown_tool";
+			const snippet = (buf.args || "").slice(0, 200);
+			const parsed = parseJSONObjectTolerant(buf.args);
+			const checked = parsed.ok ? this.checkToolInput(name, parsed.value) : undefined;
+			// Repaired arguments are only trusted when they still match the tool's schema
+			if (!parsed.ok || !checked || (parsed.repaired && checked.problems.length > 0)) {
+				if (throwOnInvalid) {
+					log.error("Invalid JSON for tool call", { idx, name, snippet, problems: checked?.problems });
+					throw new Error(`Invalid JSON for tool call "${name}": ${snippet}`);
+				}
+				continue;
+			}
+			if (parsed.repaired) {
+				log.warn("Repaired tool call arguments", { name, snippet, repaired: checked.input });
+			}
+			const id = buf.id ?? `call_${Math.random().toString(36).slice(2, 10)}`;
+			try {
+				const canonical = JSON.stringify(parsed.value);
+				this._emittedTextToolCallKeys.add(`${name}:${canonical}`);
+			} catch { /* ignore */ }
+			this.reportToolCall(id, name, checked);
+			this._toolCallBuffers.delete(idx);
+			this._completedToolCallIndices.add(idx);
+		}
+	}
+
+	/** Strip provider control tokens from streamed text */
+	private stripControlTokens(text: string): string {
+		try {
+			return text
+				.replace(/<\|[a-zA-Z0-9_-]+_section_(?:begin|end)\|>/g, "")
+				.replace(/<\|tool_call_(?:argument_)?(?:begin|end)\|>/g, "");
+		} catch {
+			return text;
+		}
+	}
+}
+
+/**
+ * Length of the longest proper prefix of a control token at the end of the text
+ * @param text Buffered stream text
+ * @param token Control token, e.g. "<|tool_call_end|>"
+ */
+function partialTokenLength(text: string, token: string): number {
+	for (let k = Math.min(token.length - 1, text.length); k > 0; k--) {
+		if (text.endsWith(token.slice(0, k))) {
+			return k;
+		}
+	}
+	return 0;
+}
@@ -0,0 +1,94 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { classifyApiError, parseErrorEnvelope, toLanguageModelError } from "../api-errors";
+import { PROVIDERS, type ProviderConfig } from "../config";
+import { HttpStatusError } from "../retry";
+import { StreamApiError } from "../stream-session";
+
+const coding = PROVIDERS["chatglm-coding"];
+
+function apiError(status: number, code?: string, message = "details"): HttpStatusError {
+	const body = code === undefined ? "" : JSON.stringify({ error: { code, message } });
+	return new HttpStatusError(`ChatGLM Coding API error: ${status}`, status, body);
+}
+
+suite("api-errors", () => {
+	test("the error envelope is parsed leniently", () => {
+		assert.deepEqual(parseErrorEnvelope('{"error":{"code":1113,"message":"余额不足"}}'), { code: "1113", message: "余额不足" });
+		assert.deepEqual(parseErrorEnvelope('{"error":{"message":"bad"}}'), { code: undefined, message: "bad" });
+		assert.equal(parseErrorEnvelope("Bad Gateway"), undefined);
+		assert.equal(parseErrorEnvelope('{"detail":"x"}'), undefined);
+	});
+
+	test("Zhipu codes take precedence over the HTTP status", () => {
+		assert.equal(classifyApiError(apiError(429, "1113")), "balance");
+		assert.equal(classifyApiError(apiError(400, "1261")), "contextTooLong");
+		assert.equal(classifyApiError(apiError(400, "1301")), "contentFilter");
+		assert.equal(classifyApiError(apiError(400, "1211")), "modelNotFound");
+		assert.equal(classifyApiError(apiError(429, "1302")), "rateLimit");
+		assert.equal(classifyApiError(apiError(401, "1002")), "auth");
+		assert.equal(classifyApiError(apiError(401)), "auth");
+		assert.equal(classifyApiError(apiError(429)), "rateLimit");
+		assert.equal(classifyApiError(apiError(500, "500")), undefined);
+	});
+
+	test("each kind maps to a LanguageModelError with follow-up actions", () => {
+		const cases: [HttpStatusError, string, string[]][] = [
+			[apiError(401, "1000"), "NoPermissions", ["reenterKey"]],
+			[apiError(429, "1113"), "Blocked", ["openBilling", "switchModel"]],
+			[apiError(429, "1302"), "Blocked", []],
+			[apiError(400, "1301"), "Blocked", []],
+			[apiError(400, "1211"), "NotFound", ["switchModel"]],
+		];
+		for (const [err, code, actions] of cases) {
+			const mapped = toLanguageModelError(err, coding, "glm-4.6", "en");
+			assert.ok(mapped, err.body);
+			assert.ok(mapped.error instanceof vscode.LanguageModelError);
+			assert.equal(mapped.error.code, code, err.body);
+			assert.deepEqual(mapped.actions, actions, err.body);
+			assert.equal((mapped.error as { cause?: unknown }).cause, err);
+		}
+	});
+
+	test("context overflow names the model and keeps the server message", () => {
+		const mapped = toLanguageModelError(apiError(400, "1261", "Prompt 超长"), coding, "glm-4.6", "en");
+		assert.ok(mapped);
+		assert.equal(mapped.kind, "contextTooLong");
+		assert.ok(mapped.error instanceof vscode.LanguageModelError);
+		assert.ok(mapped.error.message.includes("glm-4.6"));
+		assert.ok(mapped.error.message.endsWith("(1261: Prompt 超长)"));
+	});
+
+	test("messages follow the UI language", () => {
+		const zh = toLanguageModelError(apiError(429, "1113"), coding, "glm-4.6", "zh-cn");
+		assert.ok(zh?.error.message.startsWith("ChatGLM Coding 账户余额不足"));
+		const en = toLanguageModelError(apiError(429, "1113"), coding, "glm-4.6", "en");
+		assert.ok(en?.error.message.startsWith("ChatGLM Coding account balance is insufficient"));
+	});
+
+	test("custom providers are not sent to the Zhipu billing page", () => {
+		const custom: ProviderConfig = { ...coding, id: "team-gw", name: "Team Gateway", isCustom: true };
+		assert.deepEqual(toLanguageModelError(apiError(402), custom, "glm-4.6", "en")?.actions, ["switchModel"]);
+	});
+
+	test("unknown errors are left alone", () => {
+		assert.equal(toLanguageModelError(apiError(503, undefined), coding, "glm-4.6", "en"), undefined);
+	});
+
+	test("error events in the middle of a stream use the same codes", () => {
+		const streamError = (code: string, message: string) =>
+			new StreamApiError(`API error in stream (${code}): ${message}`, code, { error: { code, message } });
+
+		const filtered = toLanguageModelError(streamError("1301", "不安全内容"), coding, "glm-4.6", "en");
+		assert.equal(filtered?.kind, "contentFilter");
+		assert.equal(filtered?.error.code, "Blocked");
+		assert.ok(filtered?.error.message.endsWith("(1301: 不安全内容)"));
+
+		const balance = toLanguageModelError(streamError("1113", "余额不足"), coding, "glm-4.6", "zh-cn");
+		assert.equal(balance?.kind, "balance");
+		assert.deepEqual(balance?.actions, ["openBilling", "switchModel"]);
+		assert.ok(balance?.error.message.startsWith("ChatGLM Coding 账户余额不足"));
+
+		assert.equal(toLanguageModelError(streamError("500", "internal"), coding, "glm-4.6", "en"), undefined);
+	});
+});
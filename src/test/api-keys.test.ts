@@ -0,0 +1,149 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { ApiKeyStore, DEFAULT_PROFILE, getKeyFailureReason } from "../api-keys";
+import { PROVIDERS } from "../config";
+import { HttpStatusError } from "../retry";
+
+/** In-memory SecretStorage and Memento */
+function storage() {
+	const secrets = new Map<string, string>();
+	const state = new Map<string, unknown>();
+	return {
+		secrets,
+		secretStorage: {
+			get: async (key: string) => secrets.get(key),
+			store: async (key: string, value: string) => {
+				secrets.set(key, value);
+			},
+			delete: async (key: string) => {
+				secrets.delete(key);
+			},
+			onDidChange: () => ({ dispose() {} }),
+		} as unknown as vscode.SecretStorage,
+		memento: {
+			get: <T>(key: string) => state.get(key) as T | undefined,
+			update: async (key: string, value: unknown) => {
+				state.set(key, value);
+			},
+			keys: () => [...state.keys()],
+		} as unknown as vscode.Memento,
+	};
+}
+
+const coding = PROVIDERS["chatglm-coding"];
+const general = PROVIDERS["chatglm-general"];
+
+suite("api-keys", () => {
+	test("each provider has its own key", async () => {
+		const s = storage();
+		const keys = new ApiKeyStore(s.secretStorage, s.memento);
+		await keys.store(coding, "coding-plan-key");
+		await keys.store(general, "pay-as-you-go-key");
+		assert.equal(await keys.get(coding), "coding-plan-key");
+		assert.equal(await keys.get(general), "pay-as-you-go-key");
+		assert.notEqual(coding.apiKeySecret, general.apiKeySecret);
+	});
+
+	test("profiles keep separate keys and can be switched", async () => {
+		const s = storage();
+		const keys = new ApiKeyStore(s.secretStorage, s.memento);
+		const changes: string[] = [];
+		keys.onDidChangeActiveProfile((p) => changes.push(p));
+
+		await keys.store(coding, "personal-key");
+		await keys.addProfile("work");
+		await keys.setActiveProfile("work");
+		assert.equal(keys.activeProfile, "work");
+		assert.equal(await keys.get(coding), undefined);
+		await keys.store(coding, "work-key");
+		assert.equal(await keys.get(coding), "work-key");
+
+		await keys.setActiveProfile(DEFAULT_PROFILE);
+		assert.equal(await keys.get(coding), "personal-key");
+		assert.deepEqual(keys.profiles, [DEFAULT_PROFILE, "work"]);
+		assert.deepEqual(changes, ["work", DEFAULT_PROFILE]);
+
+		// The active profile survives a reload
+		await keys.setActiveProfile("work");
+		assert.equal(new ApiKeyStore(s.secretStorage, s.memento).activeProfile, "work");
+	});
+
+	test("removing a profile deletes its keys and falls back to default", async () => {
+		const s = storage();
+		const keys = new ApiKeyStore(s.secretStorage, s.memento);
+		await keys.addProfile("work");
+		await keys.setActiveProfile("work");
+		await keys.store(coding, "work-key");
+
+		await keys.removeProfile("work", [coding, general]);
+		assert.equal(keys.activeProfile, DEFAULT_PROFILE);
+		assert.deepEqual(keys.profiles, [DEFAULT_PROFILE]);
+		assert.equal(s.secrets.size, 0);
+		await assert.rejects(keys.removeProfile(DEFAULT_PROFILE, [coding]));
+	});
+
+	test("profile names are validated", async () => {
+		const s = storage();
+		const keys = new ApiKeyStore(s.secretStorage, s.memento);
+		await keys.addProfile("work");
+		assert.ok(ApiKeyStore.validateProfileName("work", keys.profiles));
+		assert.ok(ApiKeyStore.validateProfileName("my key", keys.profiles));
+		assert.equal(ApiKeyStore.validateProfileName("personal", keys.profiles), undefined);
+		await assert.rejects(keys.addProfile(DEFAULT_PROFILE));
+		await assert.rejects(keys.setActiveProfile("missing"));
+	});
+
+	test("the shared legacy key is migrated to both ChatGLM endpoints", async () => {
+		const s = storage();
+		s.secrets.set("chatglm-router.apiKey.chatglm", "old-shared-key");
+		s.secrets.set(general.apiKeySecret, "already-set");
+		const keys = new ApiKeyStore(s.secretStorage, s.memento);
+
+		await keys.migrateLegacyKey([coding, general]);
+		assert.equal(await keys.get(coding), "old-shared-key");
+		assert.equal(await keys.get(general), "already-set");
+		assert.equal(s.secrets.has("chatglm-router.apiKey.chatglm"), false);
+	});
+
+	test("a pool rotates past keys that are cooling down", async () => {
+		const s = storage();
+		const keys = new ApiKeyStore(s.secretStorage, s.memento);
+		await keys.setKeys(coding, ["key-a", "key-b", "key-c", "key-a"]);
+		assert.deepEqual(await keys.getKeys(coding), ["key-a", "key-b", "key-c"]);
+		assert.equal(await keys.get(coding, 0), "key-a");
+
+		assert.equal(await keys.reportFailure(coding, "key-a", "rateLimit", undefined, 0), true);
+		assert.equal(await keys.get(coding, 1), "key-b");
+		assert.equal(await keys.reportFailure(coding, "key-b", "quota", undefined, 1), true);
+		assert.equal(await keys.get(coding, 2), "key-c");
+		assert.deepEqual(await keys.getPoolStatus(coding, 2), { activeIndex: 2, total: 3, coolingDown: 2 });
+
+		// Every key cooling down: the one that recovers first is used
+		assert.equal(await keys.reportFailure(coding, "key-c", "auth", undefined, 2), false);
+		assert.equal(await keys.get(coding, 3), "key-a");
+
+		// Cooldowns expire
+		assert.equal(await keys.get(coding, 120_000), "key-a");
+	});
+
+	test("editing the keys clears cooldowns", async () => {
+		const s = storage();
+		const keys = new ApiKeyStore(s.secretStorage, s.memento);
+		await keys.setKeys(coding, ["key-a", "key-b"]);
+		await keys.reportFailure(coding, "key-a", "auth", undefined, 0);
+		assert.equal(await keys.get(coding, 1), "key-b");
+		await keys.setKeys(coding, ["key-a", "key-b"]);
+		assert.equal(await keys.get(coding, 1), "key-a");
+		await keys.setKeys(coding, []);
+		assert.equal(s.secrets.size, 0);
+	});
+
+	test("429, 401 and balance errors trigger failover", () => {
+		const error = (status: number, body: unknown) => new HttpStatusError("API error", status, JSON.stringify(body));
+		assert.equal(getKeyFailureReason(error(429, { error: { code: "1302", message: "rate limit" } })), "rateLimit");
+		assert.equal(getKeyFailureReason(error(429, { error: { code: "1113", message: "余额不足" } })), "quota");
+		assert.equal(getKeyFailureReason(error(401, { error: { code: "1000" } })), "auth");
+		assert.equal(getKeyFailureReason(error(500, {})), undefined);
+		assert.equal(getKeyFailureReason(new HttpStatusError("API error", 429, "Too Many Requests")), "rateLimit");
+	});
+});
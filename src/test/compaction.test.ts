@@ -0,0 +1,127 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { compactMessages, type CompactionOptions } from "../compaction";
+import { validateRequest } from "../utils";
+
+const User = vscode.LanguageModelChatMessageRole.User;
+const Assistant = vscode.LanguageModelChatMessageRole.Assistant;
+const System = 3 as unknown as vscode.LanguageModelChatMessageRole;
+
+function text(role: vscode.LanguageModelChatMessageRole, value: string): vscode.LanguageModelChatMessage {
+	return { role, content: [new vscode.LanguageModelTextPart(value)], name: undefined };
+}
+
+function toolCall(callId: string): vscode.LanguageModelChatMessage {
+	return { role: Assistant, content: [new vscode.LanguageModelToolCallPart(callId, "read_file", { path: "a.ts" })], name: undefined };
+}
+
+function toolResult(callId: string, value: string): vscode.LanguageModelChatMessage {
+	return {
+		role: User,
+		content: [new vscode.LanguageModelToolResultPart(callId, [new vscode.LanguageModelTextPart(value)])],
+		name: undefined,
+	};
+}
+
+/** One token per message keeps budgets easy to reason about */
+const perMessage: CompactionOptions = { strategy: "dropOldest", maxToolResultTokens: 8000, countTokens: () => 1 };
+
+suite("compaction", () => {
+	test("conversations within budget are returned unchanged", () => {
+		const messages = [text(User, "hi"), text(Assistant, "hello")];
+		const result = compactMessages(messages, 10, perMessage);
+		assert.deepEqual(result.messages, messages);
+		assert.equal(result.droppedMessages, 0);
+	});
+
+	test("oldest exchanges are dropped while system prompt, current prompt and tool pairs are kept", () => {
+		const messages = [
+			text(System, "system"),
+			text(User, "old question"),
+			text(Assistant, "old answer"),
+			text(User, "fix the build"),
+			toolCall("c1"),
+			toolResult("c1", "one"),
+			toolCall("c2"),
+			toolResult("c2", "two"),
+			toolCall("c3"),
+			toolResult("c3", "three"),
+		];
+		const result = compactMessages(messages, 6, perMessage);
+		assert.equal(result.droppedMessages, 4);
+		assert.equal(result.tokensAfter, 6);
+		assert.deepEqual(
+			result.messages.map((m) => m.content[0]),
+			[messages[0], messages[3], messages[6], messages[7], messages[8], messages[9]].map((m) => m.content[0])
+		);
+		validateRequest(result.messages);
+	});
+
+	test("strategy off leaves the conversation intact", () => {
+		const messages = [text(User, "a"), text(Assistant, "b"), text(User, "c")];
+		const result = compactMessages(messages, 1, { ...perMessage, strategy: "off" });
+		assert.equal(result.messages.length, 3);
+		assert.equal(result.tokensAfter, 3);
+	});
+
+	test("oversized tool results are truncated with a marker", () => {
+		const big = "line of output\n".repeat(2000);
+		const messages = [text(User, "run tests"), toolCall("c1"), toolResult("c1", big)];
+		const result = compactMessages(messages, 1000, { strategy: "auto", maxToolResultTokens: 300 });
+		assert.equal(result.truncatedToolResults, 1);
+		assert.ok(result.tokensAfter < result.tokensBefore);
+		assert.ok(result.tokensAfter <= 1000);
+		const part = result.messages[2].content[0] as vscode.LanguageModelToolResultPart;
+		assert.equal(part.callId, "c1");
+		const value = (part.content[0] as vscode.LanguageModelTextPart).value;
+		assert.ok(value.startsWith("line of output"));
+		assert.ok(value.includes("truncated about"));
+		validateRequest(result.messages);
+	});
+
+	test("data parts of oversized tool results are truncated too", () => {
+		const rows = Array.from({ length: 3000 }, (_, i) => ({ id: i, name: `row ${i}` }));
+		const data = { mimeType: "application/json", data: new TextEncoder().encode(JSON.stringify(rows)) };
+		const messages = [
+			text(User, "list rows"),
+			toolCall("c1"),
+			{ role: User, content: [new vscode.LanguageModelToolResultPart("c1", [data])], name: undefined },
+		];
+		const result = compactMessages(messages, 2000, { strategy: "auto", maxToolResultTokens: 300 });
+		assert.equal(result.truncatedToolResults, 1);
+		const part = result.messages[2].content[0] as vscode.LanguageModelToolResultPart;
+		const value = (part.content[0] as vscode.LanguageModelTextPart).value;
+		assert.ok(value.startsWith("[\n  {\n    \"id\": 0"));
+		assert.ok(value.includes("truncated about"));
+		assert.equal(part.content.length, 1);
+	});
+
+	test("truncation does not split characters outside the BMP", () => {
+		const loneSurrogate = /[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/;
+		const messages = [text(User, "show the log"), toolCall("c1"), toolResult("c1", "😀𠮷".repeat(1000))];
+		for (let maxToolResultTokens = 50; maxToolResultTokens < 60; maxToolResultTokens++) {
+			const result = compactMessages(messages, 1000, { strategy: "auto", maxToolResultTokens });
+			const part = result.messages[2].content[0] as vscode.LanguageModelToolResultPart;
+			const value = (part.content[0] as vscode.LanguageModelTextPart).value;
+			assert.ok(!loneSurrogate.test(value), `lone surrogate at limit ${maxToolResultTokens}`);
+		}
+	});
+
+	test("tool results mixed with a new prompt stay with their call", () => {
+		const mixed: vscode.LanguageModelChatMessage = {
+			role: User,
+			content: [new vscode.LanguageModelToolResultPart("c2", [new vscode.LanguageModelTextPart("two")]), new vscode.LanguageModelTextPart("now run it")],
+			name: undefined,
+		};
+		const messages = [
+			text(User, "fix the build"),
+			toolCall("c1"),
+			toolResult("c1", "one"),
+			toolCall("c2"),
+			mixed,
+			text(Assistant, "running"),
+		];
+		const result = compactMessages(messages, 3, perMessage);
+		assert.deepEqual(result.messages, [messages[3], mixed, messages[5]]);
+	});
+});
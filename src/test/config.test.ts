@@ -0,0 +1,52 @@
+import * as assert from "assert";
+import { getAllProviders, getProviderByModelId, parseCustomProviders, reloadCustomProviders } from "../config";
+
+suite("config/customProviders", () => {
+	teardown(() => {
+		reloadCustomProviders([]);
+	});
+
+	test("valid entries become providers with their own secret", () => {
+		const { providers, errors } = parseCustomProviders([
+			{ id: "team-gw", name: "Team Gateway", baseUrl: "https://llm.example.com/v1/", contextLength: 64000, supportsTools: false },
+		]);
+		assert.deepEqual(errors, []);
+		assert.equal(providers.length, 1);
+		const [p] = providers;
+		assert.equal(p.baseUrl, "https://llm.example.com/v1");
+		assert.equal(p.apiKeySecret, "chatglm-router.apiKey.custom.team-gw");
+		assert.equal(p.family, "chatglm");
+		assert.equal(p.supportsTools, false);
+		assert.equal(p.defaultContextLength, 64000);
+		assert.equal(p.defaultMaxTokens, 8192);
+		assert.equal(p.isCustom, true);
+	});
+
+	test("invalid and duplicate entries are rejected with a reason", () => {
+		const { providers, errors } = parseCustomProviders([
+			{ id: "chatglm-coding", name: "Shadow", baseUrl: "https://a.example.com" },
+			{ id: "bad:id", name: "Bad", baseUrl: "https://a.example.com" },
+			{ id: "no-url", name: "No URL", baseUrl: "not a url" },
+			{ id: "ftp", name: "FTP", baseUrl: "ftp://a.example.com" },
+			{ id: "limits", name: "Limits", baseUrl: "https://a.example.com", contextLength: -1 },
+			{ id: "ok", name: "OK", baseUrl: "http://localhost:8080/v1" },
+			{ id: "ok", name: "OK again", baseUrl: "http://localhost:8081/v1" },
+			{ id: "off", name: "Off", baseUrl: "http://localhost:8082/v1", enabled: false },
+			{ id: "slow", name: "Slow", baseUrl: "http://localhost:8083/v1", timeouts: { idleSeconds: -1 } },
+			"nope",
+		]);
+		assert.deepEqual(providers.map((p) => p.id), ["ok"]);
+		assert.equal(errors.length, 8);
+		assert.ok(errors[0].includes("already in use"));
+	});
+
+	test("reloaded providers are routed by model ID prefix", () => {
+		assert.deepEqual(reloadCustomProviders([{ id: "team-gw", name: "Team Gateway", baseUrl: "https://llm.example.com/v1" }]), []);
+		assert.ok(getAllProviders().some((p) => p.id === "team-gw"));
+		assert.equal(getProviderByModelId("team-gw:glm-4.6").id, "team-gw");
+		assert.equal(getProviderByModelId("glm-4.6").id, "chatglm-coding");
+
+		reloadCustomProviders([]);
+		assert.equal(getProviderByModelId("team-gw:glm-4.6").id, "chatglm-coding");
+	});
+});
@@ -0,0 +1,99 @@
+/**
+ * Recorded SSE fixtures for replay tests
+ * A fixture keeps the body chunks of a /chat/completions stream exactly as they arrived,
+ * so replaying it through MockChatGLMServer reproduces the server's chunk boundaries.
+ *
+ * Record a new fixture against the real API (after `npm run compile`):
+ *   CHATGLM_API_KEY=... node out/test/fixtures.js <name> "<prompt>" [model] [baseUrl]
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type { MockResponse } from "./mock-server";
+
+/**
+ * A captured chat completion stream
+ */
+export interface SseFixture {
+	description: string;
+	/** Request that produced the stream, without credentials */
+	request: Record<string, unknown>;
+	status: number;
+	chunks: string[];
+}
+
+/** Fixtures live next to the test sources; tests run from out/test */
+export const FIXTURE_DIR = path.resolve(__dirname, "..", "..", "src", "test", "fixtures");
+
+const DEFAULT_BASE_URL = "https://open.bigmodel.cn/api/coding/paas/v4";
+
+/**
+ * Read a fixture by name
+ * @param name File name without the .json extension
+ */
+export function loadFixture(name: string): SseFixture {
+	return JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, `${name}.json`), "utf8")) as SseFixture;
+}
+
+/**
+ * A fixture as a scripted mock server response
+ * @param name File name without the .json extension
+ */
+export function replayFixture(name: string): MockResponse {
+	const fixture = loadFixture(name);
+	return { kind: "stream", status: fixture.status, chunks: fixture.chunks };
+}
+
+/**
+ * Send a request to a real endpoint and capture the response chunks
+ * @param options Endpoint, key and request body
+ * @returns The fixture; the API key is never part of it
+ */
+export async function recordFixture(options: {
+	baseUrl: string;
+	apiKey: string;
+	request: Record<string, unknown>;
+	description: string;
+}): Promise<SseFixture> {
+	const response = await fetch(`${options.baseUrl}/chat/completions`, {
+		method: "POST",
+		headers: { Authorization: `Bearer ${options.apiKey}`, "Content-Type": "application/json" },
+		body: JSON.stringify({ ...options.request, stream: true }),
+	});
+	const chunks: string[] = [];
+	if (response.body) {
+		const reader = response.body.getReader();
+		const decoder = new TextDecoder();
+		for (;;) {
+			const { done, value } = await reader.read();
+			if (done) {
+				break;
+			}
+			chunks.push(decoder.decode(value, { stream: true }));
+		}
+	}
+	return { description: options.description, request: options.request, status: response.status, chunks };
+}
+
+async function main(argv: string[]): Promise<void> {
+	const [name, prompt, model = "glm-4.6", baseUrl = DEFAULT_BASE_URL] = argv;
+	const apiKey = process.env.CHATGLM_API_KEY;
+	if (!name || !prompt || !apiKey) {
+		console.error('Usage: CHATGLM_API_KEY=... node out/test/fixtures.js <name> "<prompt>" [model] [baseUrl]');
+		process.exitCode = 1;
+		return;
+	}
+	const fixture = await recordFixture({
+		baseUrl,
+		apiKey,
+		request: { model, messages: [{ role: "user", content: prompt }], stream_options: { include_usage: true } },
+		description: `Recorded from ${model}: ${prompt}`,
+	});
+	const file = path.join(FIXTURE_DIR, `${name}.json`);
+	fs.writeFileSync(file, `${JSON.stringify(fixture, null, "\t")}\n`);
+	console.log(`Recorded ${fixture.chunks.length} chunks (HTTP ${fixture.status}) to ${file}`);
+}
+
+if (require.main === module) {
+	void main(process.argv.slice(2));
+}
@@ -0,0 +1,58 @@
+import * as assert from "assert";
+import { parseJSONObjectTolerant } from "../json-repair";
+
+/** Parse and return the value, failing the test when it cannot be recovered */
+function repaired(text: string): Record<string, unknown> {
+	const result = parseJSONObjectTolerant(text);
+	assert.ok(result.ok, `could not repair ${text}`);
+	return result.value;
+}
+
+suite("json-repair", () => {
+	test("valid JSON is returned as-is", () => {
+		assert.deepEqual(parseJSONObjectTolerant('{"a": 1}'), { ok: true, value: { a: 1 }, repaired: false });
+	});
+
+	test("trailing commas are removed", () => {
+		assert.deepEqual(repaired('{"a": [1, 2,], "b": {"c": 3,},}'), { a: [1, 2], b: { c: 3 } });
+	});
+
+	test("single quotes, bare keys and Python literals are converted", () => {
+		assert.deepEqual(repaired("{'path': 'it\\'s \"here\"', recursive: True, limit: None, dry: False}"), {
+			path: 'it\'s "here"',
+			recursive: true,
+			limit: null,
+			dry: false,
+		});
+	});
+
+	test("output truncated by max_tokens is closed", () => {
+		assert.deepEqual(repaired('{"a": {"b": [1, 2'), { a: { b: [1, 2] } });
+		assert.deepEqual(repaired('{"a": 1, "b": tr'), { a: 1 });
+		assert.deepEqual(repaired('{"a": 1.'), { a: 1 });
+		assert.deepEqual(repaired('{"a": 1, "b":'), { a: 1 });
+		assert.deepEqual(repaired('{"a": 1, "lon'), { a: 1 });
+	});
+
+	test("a string cut off before its closing quote is dropped, not completed", () => {
+		assert.deepEqual(repaired('{"path": "src/a'), {});
+		assert.deepEqual(repaired('{"a": 1, "path": "src/a'), { a: 1 });
+		assert.deepEqual(repaired('{"a": ["x", "y'), { a: ["x"] });
+		assert.deepEqual(repaired('{"a": 1, "text": "say \\"hi'), { a: 1 });
+	});
+
+	test("code fences and surrounding text are ignored", () => {
+		assert.deepEqual(repaired('```json\n{"a": 1}\n```'), { a: 1 });
+		assert.deepEqual(repaired('Arguments: {"a": 1} done'), { a: 1 });
+	});
+
+	test("escapes inside strings are kept", () => {
+		assert.deepEqual(repaired('{"text": "line\\nnext \\u00e9",}'), { text: "line\nnext é" });
+	});
+
+	test("text that cannot be repaired is rejected", () => {
+		assert.deepEqual(parseJSONObjectTolerant("not json"), { ok: false });
+		assert.deepEqual(parseJSONObjectTolerant('{"a": undefined}'), { ok: false });
+		assert.deepEqual(parseJSONObjectTolerant(""), { ok: false });
+	});
+});
@@ -0,0 +1,77 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { Logger } from "../logger";
+
+/** Output channel that records the appended lines without their timestamp */
+function recordingChannel() {
+	const lines: string[] = [];
+	const channel = {
+		appendLine: (line: string) => {
+			lines.push(line.replace(/^\S+ \[(\w+)\] /, "$1 "));
+		},
+	} as unknown as vscode.OutputChannel;
+	return { lines, channel };
+}
+
+suite("logger", () => {
+	test("entries below the configured level are dropped", () => {
+		const { lines, channel } = recordingChannel();
+		const logger = new Logger();
+		logger.attach(channel);
+		logger.setLevel("warn");
+		logger.trace("sse");
+		logger.info("request");
+		logger.warn("retrying");
+		logger.error("failed");
+		assert.deepEqual(lines, ["warn retrying", "error failed"]);
+
+		logger.setLevel("trace");
+		assert.ok(logger.isEnabled("trace"));
+		logger.setLevel("off");
+		logger.error("failed");
+		assert.equal(lines.length, 2);
+	});
+
+	test("debug and trace entries are written when the level allows them", () => {
+		const { lines, channel } = recordingChannel();
+		const logger = new Logger();
+		logger.attach(channel);
+		logger.setLevel("trace");
+		logger.trace("SSE event", { choices: [] });
+		logger.debug("HTTP 200 in 120ms");
+		logger.info("request");
+		assert.deepEqual(lines, ['trace SSE event {"choices":[]}', "debug HTTP 200 in 120ms", "info request"]);
+	});
+
+	test("authorization headers and key-looking strings are redacted", () => {
+		const logger = new Logger();
+		const zhipuKey = "0123456789abcdef0123456789abcdef.AbCdEfGhIjKlMnOp";
+		assert.equal(logger.redact(`Authorization: Bearer ${zhipuKey}`), "Authorization: Bearer <redacted>");
+		assert.equal(logger.redact(`key=${zhipuKey}`), "key=<redacted>");
+		assert.equal(logger.redact("key sk-proj_abcdefghijklmnop1234"), "key <redacted>");
+		assert.equal(logger.redact("glm-4.6 with 1234 tokens"), "glm-4.6 with 1234 tokens");
+	});
+
+	test("known secrets and secret fields are redacted in structured payloads", () => {
+		const { lines, channel } = recordingChannel();
+		const logger = new Logger();
+		logger.attach(channel);
+		logger.setLevel("trace");
+		logger.addSecret("plain-custom-key");
+		logger.trace("Request body", {
+			headers: { Authorization: "Bearer x", "Content-Type": "application/json" },
+			messages: [{ role: "user", content: "my key is plain-custom-key" }],
+			api_key: "anything",
+		});
+		assert.equal(lines.length, 1);
+		assert.ok(!lines[0].includes("plain-custom-key"));
+		assert.ok(!lines[0].includes("anything"));
+		assert.ok(lines[0].includes('"Content-Type":"application/json"'));
+		assert.ok(lines[0].includes("my key is <redacted>"));
+	});
+
+	test("errors are logged by name and message", () => {
+		const logger = new Logger();
+		assert.deepEqual(logger.sanitize(new TypeError("fetch failed")), { name: "TypeError", message: "fetch failed" });
+	});
+});
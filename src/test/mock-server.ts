@@ -0,0 +1,154 @@
+/**
+ * Local stand-in for the ChatGLM API used by end-to-end tests
+ * Serves scripted /models and /chat/completions responses over HTTP and keeps
+ * the requests it received, so tests exercise the real fetch and stream code.
+ */
+
+import * as http from "http";
+import type { AddressInfo } from "net";
+
+/**
+ * A scripted /chat/completions response
+ * - "stream": body chunks written one at a time, as a real server flushes them;
+ *   with `hang` the connection stays open after the last chunk, like a stalled server
+ * - "json": a complete JSON body, typically an error envelope
+ */
+export type MockResponse =
+	| { kind: "stream"; chunks: string[]; status?: number; hang?: boolean }
+	| { kind: "json"; status: number; body: unknown };
+
+/**
+ * A request received by the mock server
+ */
+export interface ReceivedRequest {
+	method: string;
+	path: string;
+	authorization?: string;
+	body?: Record<string, unknown>;
+}
+
+/**
+ * Scripted ChatGLM-compatible HTTP server on a random local port
+ */
+export class MockChatGLMServer {
+	readonly requests: ReceivedRequest[] = [];
+	/** Entries served by GET /models */
+	models: { id: string; object: string; owned_by?: string }[] = [{ id: "glm-4.6", object: "model", owned_by: "z-ai" }];
+
+	private readonly server = http.createServer((req, res) => void this.handle(req, res));
+	private readonly queue: MockResponse[] = [];
+
+	/** Base URL to configure as the provider's baseUrl; valid after start() */
+	get baseUrl(): string {
+		const { port } = this.server.address() as AddressInfo;
+		return `http://127.0.0.1:${port}/api/paas/v4`;
+	}
+
+	async start(): Promise<void> {
+		await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+	}
+
+	async stop(): Promise<void> {
+		this.server.closeAllConnections();
+		await new Promise<void>((resolve) => this.server.close(() => resolve()));
+	}
+
+	/**
+	 * Queue responses for the next chat requests, served in order
+	 * @param responses Scripted responses
+	 */
+	enqueue(...responses: MockResponse[]): void {
+		this.queue.push(...responses);
+	}
+
+	private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+		let raw = "";
+		for await (const chunk of req) {
+			raw += chunk;
+		}
+		const path = (req.url ?? "").replace(/^\/api\/paas\/v4/, "");
+		this.requests.push({
+			method: req.method ?? "GET",
+			path,
+			authorization: req.headers.authorization,
+			body: raw ? (JSON.parse(raw) as Record<string, unknown>) : undefined,
+		});
+
+		if (req.method === "GET" && path === "/models") {
+			res.writeHead(200, { "Content-Type": "application/json" });
+			res.end(JSON.stringify({ object: "list", data: this.models }));
+			return;
+		}
+		const next = path === "/chat/completions" ? this.queue.shift() : undefined;
+		if (!next) {
+			res.writeHead(404, { "Content-Type": "application/json" });
+			res.end(JSON.stringify({ error: { code: "404", message: `No scripted response for ${req.method} ${path}` } }));
+			return;
+		}
+		if (next.kind === "json") {
+			res.writeHead(next.status, { "Content-Type": "application/json" });
+			res.end(JSON.stringify(next.body));
+			return;
+		}
+		res.writeHead(next.status ?? 200, { "Content-Type": "text/event-stream" });
+		for (const chunk of next.chunks) {
+			res.write(chunk);
+			// Let the client read each chunk separately
+			await new Promise((resolve) => setImmediate(resolve));
+		}
+		if (!next.hang) {
+			res.end();
+		}
+	}
+}
+
+/**
+ * Encode chunks as an SSE body ending with the [DONE] sentinel
+ * @param events Chunk payloads; strings are sent verbatim as data
+ */
+export function sseChunks(events: (Record<string, unknown> | string)[]): string[] {
+	return [...events.map((e) => `data: ${typeof e === "string" ? e : JSON.stringify(e)}\n\n`), "data: [DONE]\n\n"];
+}
+
+/**
+ * Re-split a body into pieces of a fixed size, cutting through lines and events
+ * @param chunks Body chunks
+ * @param size Piece length in characters
+ */
+export function splitChunks(chunks: string[], size: number): string[] {
+	const body = chunks.join("");
+	const pieces: string[] = [];
+	for (let i = 0; i < body.length; i += size) {
+		pieces.push(body.slice(i, i + size));
+	}
+	return pieces;
+}
+
+/**
+ * A streamed delta chunk
+ * @param delta Delta fields (content, reasoning_content, tool_calls)
+ * @param finishReason Finish reason of the choice
+ */
+export function deltaChunk(delta: Record<string, unknown>, finishReason?: string): Record<string, unknown> {
+	return {
+		id: "chatcmpl-mock",
+		object: "chat.completion.chunk",
+		model: "glm-4.6",
+		choices: [{ index: 0, delta, ...(finishReason ? { finish_reason: finishReason } : {}) }],
+	};
+}
+
+/**
+ * The final usage chunk, sent with an empty choices array
+ * @param promptTokens Prompt tokens
+ * @param completionTokens Completion tokens
+ */
+export function usageChunk(promptTokens: number, completionTokens: number): Record<string, unknown> {
+	return {
+		id: "chatcmpl-mock",
+		object: "chat.completion.chunk",
+		model: "glm-4.6",
+		choices: [],
+		usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens },
+	};
+}
@@ -0,0 +1,108 @@
+import * as assert from "assert";
+import { PROVIDERS } from "../config";
+import { findModelMetadata, hasModelCapability, matchesModelPattern, modelPatternSpecificity, resolveModelMetadata, resolveThinkingMode, type ModelMetadata } from "../model-catalog";
+import type { HFModelItem } from "../types";
+
+const provider = PROVIDERS["chatglm-coding"];
+
+function model(id: string, extra: Partial<HFModelItem> = {}): HFModelItem {
+	return { id, object: "model", created: 0, owned_by: "zhipu", providers: [], ...extra };
+}
+
+suite("model-catalog", () => {
+	test("matchesModelPattern supports exact IDs and wildcards", () => {
+		assert.ok(matchesModelPattern("glm-4.6", "GLM-4.6"));
+		assert.ok(!matchesModelPattern("glm-4.6", "glm-4.6v"));
+		assert.ok(matchesModelPattern("glm-4*-flash", "glm-4.5-flash"));
+		assert.ok(!matchesModelPattern("glm-4.5", "glm-435"));
+	});
+
+	test("exact entries win over patterns, longer patterns over shorter", () => {
+		const entries = [{ match: "glm-*" }, { match: "glm-4v*" }, { match: "glm-4v-flash" }];
+		assert.equal(findModelMetadata(entries, "glm-4v-flash")?.match, "glm-4v-flash");
+		assert.equal(findModelMetadata(entries, "glm-4v-plus")?.match, "glm-4v*");
+		assert.equal(findModelMetadata(entries, "glm-4.6")?.match, "glm-*");
+		assert.equal(findModelMetadata(entries, "cogview-4"), undefined);
+	});
+
+	test("built-in entries drive limits and vision support", () => {
+		const glm46 = resolveModelMetadata(model("glm-4.6"), provider);
+		assert.equal(glm46.displayName, "GLM-4.6");
+		assert.equal(glm46.contextLength, 200000);
+		assert.equal(glm46.maxOutputTokens, 131072);
+		assert.equal(glm46.maxInputTokens, 200000 - provider.defaultMaxTokens);
+		assert.equal(glm46.imageInput, false);
+
+		const glm45v = resolveModelMetadata(model("glm-4.5v"), provider);
+		assert.equal(glm45v.imageInput, true);
+		assert.equal(glm45v.contextLength, 64000);
+
+		const vflash = resolveModelMetadata(model("glm-4v-flash"), provider);
+		assert.equal(vflash.toolCalling, false);
+		assert.ok(vflash.maxInputTokens < 8192);
+	});
+
+	test("unknown models fall back to provider defaults", () => {
+		const meta = resolveModelMetadata(model("some-new-model"), provider);
+		assert.equal(meta.displayName, "some-new-model");
+		assert.equal(meta.contextLength, provider.defaultContextLength);
+		assert.equal(meta.maxOutputTokens, provider.defaultMaxTokens);
+		assert.equal(meta.toolCalling, true);
+		assert.equal(meta.imageInput, false);
+	});
+
+	test("API-supplied fields override built-ins and user overrides win", () => {
+		const apiModel = model("glm-4.6", {
+			providers: [{ provider: "zhipu", status: "live", context_length: 150000, supports_tools: true }],
+			architecture: { input_modalities: ["text", "image"] },
+		});
+		const fromApi = resolveModelMetadata(apiModel, provider);
+		assert.equal(fromApi.contextLength, 150000);
+		assert.equal(fromApi.imageInput, true);
+
+		const overridden = resolveModelMetadata(apiModel, provider, [
+			{ match: "glm-4.*", displayName: "GLM (team gateway)", contextLength: 64000, imageInput: false },
+		]);
+		assert.equal(overridden.displayName, "GLM (team gateway)");
+		assert.equal(overridden.contextLength, 64000);
+		assert.equal(overridden.imageInput, false);
+	});
+
+	test("thinking mode prefers request options, then overrides, then the setting", () => {
+		const overrides = [{ match: "glm-4.5*", thinking: "disabled" as const }];
+		assert.equal(resolveThinkingMode("glm-4.6", undefined, []), undefined);
+		assert.equal(resolveThinkingMode("glm-4.5-air", undefined, overrides), "disabled");
+		assert.equal(resolveThinkingMode("glm-4.5-air", { thinking: { type: "enabled" } }, overrides), "enabled");
+		assert.equal(resolveThinkingMode("glm-4.5-air", { thinking: true }, overrides), "enabled");
+	});
+
+	test("thinking is only sent to models with the thinkingSwitch capability", () => {
+		assert.equal(resolveThinkingMode("glm-4-plus", { thinking: true }, []), undefined);
+		assert.equal(resolveThinkingMode("deepseek-chat", { thinking: true }, [{ match: "*", thinking: "enabled" }]), undefined);
+		const overrides = [{ match: "my-reasoner*", thinkingSwitch: true }];
+		assert.equal(resolveThinkingMode("my-reasoner-v2", { thinking: true }, overrides), "enabled");
+		assert.equal(resolveThinkingMode("glm-4.6", { thinking: true }, [{ match: "glm-4.6", thinkingSwitch: false }]), undefined);
+	});
+
+	test("a more specific override without thinking keeps the general one's", () => {
+		const overrides: ModelMetadata[] = [
+			{ match: "glm-4*", thinking: "disabled" },
+			{ match: "glm-4.6", displayName: "X" },
+		];
+		assert.equal(resolveThinkingMode("glm-4.6", undefined, overrides), "disabled");
+		assert.equal(resolveThinkingMode("glm-4.6", undefined, [...overrides, { match: "glm-4.6*", thinking: "enabled" }]), "enabled");
+	});
+
+	test("capability flags come from the most specific override, else the catalog", () => {
+		assert.ok(hasModelCapability("glm-4.6v-flash", "toolStream", []));
+		assert.ok(!hasModelCapability("glm-4.5-air", "toolStream", []));
+		assert.ok(hasModelCapability("glm-4.5-air", "toolStream", [{ match: "glm-4.5*", toolStream: true }]));
+		assert.ok(!hasModelCapability("glm-4.6", "toolStream", [{ match: "glm-*", toolStream: true }, { match: "glm-4.6", toolStream: false }]));
+	});
+
+	test("exact IDs are more specific than any pattern", () => {
+		assert.ok(modelPatternSpecificity("glm-4.6") > modelPatternSpecificity("glm-4.6*"));
+		assert.ok(modelPatternSpecificity("glm-4.6*") > modelPatternSpecificity("glm-*"));
+		assert.equal(modelPatternSpecificity("*"), 0);
+	});
+});
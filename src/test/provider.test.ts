@@ -1,8 +1,13 @@
 import * as assert from "assert";
+import * as http from "http";
+import type { AddressInfo } from "net";
 import * as vscode from "vscode";
 import { ChatGLMRouterProvider } from "../provider";
 import { StatisticsManager } from "../statistics";
-import { convertMessages, convertTools, validateRequest, validateTools, tryParseJSONObject } from "../utils";
+import { ModelListCache, modelCacheKey } from "../model-cache";
+import { DEFAULT_PROFILE } from "../api-keys";
+import { getProviderById } from "../config";
+import { MAX_TOOL_RESULT_PART_CHARS, convertMessages, convertTools, validateRequest, validateTools, tryParseJSONObject } from "../utils";
 
 interface OpenAIToolCall {
 	id: string;
@@ -243,6 +248,355 @@ suite("ChatGLM Router Extension", () => {
 		});
 	});
 
+	suite("provider/cancellation", () => {
+		test("cancelling aborts the HTTP stream and records a cancelled request", async () => {
+			let markClosed: () => void = () => {};
+			const connectionClosed = new Promise<void>((resolve) => (markClosed = resolve));
+			const server = http.createServer((_req, res) => {
+				res.on("close", () => markClosed());
+				res.writeHead(200, { "Content-Type": "text/event-stream" });
+				res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: "partial answer" } }] })}\n\n`);
+				// Never end the response: the stream only stops if the client aborts it
+			});
+			await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+			const { port } = server.address() as AddressInfo;
+
+			let stored: unknown;
+			const context = {
+				globalState: {
+					get: () => stored,
+					update: async (_key: string, value: unknown) => {
+						stored = value;
+					},
+					keys: () => [],
+				},
+				secrets: {
+					get: async () => "test-key",
+					store: async () => {},
+					delete: async () => {},
+					onDidChange: (_listener: unknown) => ({ dispose() {} }),
+				},
+			} as unknown as vscode.ExtensionContext;
+			const statsManager = new StatisticsManager(context);
+			const provider = new ChatGLMRouterProvider(context.secrets, statsManager, "GitHubCopilotChat/test VSCode/test");
+
+			// Redirect the provider's request to the local server
+			const realFetch = globalThis.fetch;
+			globalThis.fetch = (_input: string | URL | Request, init?: RequestInit) =>
+				realFetch(`http://127.0.0.1:${port}/chat/completions`, init);
+
+			const cts = new vscode.CancellationTokenSource();
+			try {
+				await assert.rejects(
+					provider.provideLanguageModelChatResponse(
+						{
+							id: "chatglm-coding:glm-4.6",
+							name: "glm-4.6",
+							family: "chatglm",
+							version: "1.0.0",
+							maxInputTokens: 100000,
+							maxOutputTokens: 8192,
+							capabilities: {},
+						} as unknown as vscode.LanguageModelChatInformation,
+						[vscode.LanguageModelChatMessage.User("hi")],
+						{} as vscode.LanguageModelChatRequestHandleOptions,
+						{ report: () => cts.cancel() },
+						cts.token
+					),
+					vscode.CancellationError
+				);
+				// Resolves only once the client has torn down the connection
+				await connectionClosed;
+			} finally {
+				globalThis.fetch = realFetch;
+				cts.dispose();
+				server.closeAllConnections();
+				await new Promise<void>((resolve) => server.close(() => resolve()));
+			}
+
+			const stats = await statsManager.getModelStats("chatglm-coding", "chatglm-coding:glm-4.6");
+			assert.ok(stats);
+			assert.equal(stats.cancelledCount, 1);
+			assert.ok(stats.totalOutputTokens > 0);
+		});
+	});
+
+	suite("provider/api key failover", () => {
+		test("rate-limited keys fail over to the next key in the pool", async () => {
+			const seenKeys: string[] = [];
+			const server = http.createServer((req, res) => {
+				const key = String(req.headers.authorization).replace("Bearer ", "");
+				seenKeys.push(key);
+				if (key === "key-a") {
+					res.writeHead(429, { "Content-Type": "application/json" });
+					res.end(JSON.stringify({ error: { code: "1302", message: "rate limit reached" } }));
+					return;
+				}
+				res.writeHead(200, { "Content-Type": "text/event-stream" });
+				res.end(`data: ${JSON.stringify({ choices: [{ delta: { content: "ok" } }] })}\n\ndata: [DONE]\n\n`);
+			});
+			await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+			const { port } = server.address() as AddressInfo;
+
+			const secrets = new Map<string, string>([
+				["chatglm-router.apiKey.chatglm-coding", "key-a"],
+				["chatglm-router.apiKey.chatglm-coding.pool", JSON.stringify(["key-b"])],
+			]);
+			const context = {
+				globalState: { get: () => undefined, update: async () => {}, keys: () => [] },
+				secrets: {
+					get: async (key: string) => secrets.get(key),
+					store: async () => {},
+					delete: async () => {},
+					onDidChange: (_listener: unknown) => ({ dispose() {} }),
+				},
+			} as unknown as vscode.ExtensionContext;
+			const provider = new ChatGLMRouterProvider(context.secrets, new StatisticsManager(context), "GitHubCopilotChat/test VSCode/test");
+
+			const realFetch = globalThis.fetch;
+			globalThis.fetch = (_input: string | URL | Request, init?: RequestInit) =>
+				realFetch(`http://127.0.0.1:${port}/chat/completions`, init);
+			const model = {
+				id: "chatglm-coding:glm-4.6",
+				name: "glm-4.6",
+				family: "chatglm",
+				version: "1.0.0",
+				maxInputTokens: 100000,
+				maxOutputTokens: 8192,
+				capabilities: {},
+			} as unknown as vscode.LanguageModelChatInformation;
+			try {
+				for (let i = 0; i < 2; i++) {
+					const parts: vscode.LanguageModelResponsePart[] = [];
+					await provider.provideLanguageModelChatResponse(
+						model,
+						[vscode.LanguageModelChatMessage.User("hi")],
+						{} as vscode.LanguageModelChatRequestHandleOptions,
+						{ report: (part) => parts.push(part) },
+						new vscode.CancellationTokenSource().token
+					);
+					assert.equal((parts[0] as vscode.LanguageModelTextPart).value, "ok");
+				}
+			} finally {
+				globalThis.fetch = realFetch;
+				await new Promise<void>((resolve) => server.close(() => resolve()));
+			}
+			// The cooling key is skipped on the next request
+			assert.deepEqual(seenKeys, ["key-a", "key-b", "key-b"]);
+		});
+	});
+
+	suite("provider/model cache", () => {
+		const CODING_KEY = modelCacheKey("chatglm-coding", getProviderById("chatglm-coding")!.baseUrl, DEFAULT_PROFILE);
+
+		function createCachedProvider(initialState: Record<string, unknown>) {
+			const state = new Map<string, unknown>(Object.entries(initialState));
+			const globalState = {
+				get: (key: string) => state.get(key),
+				update: async (key: string, value: unknown) => {
+					state.set(key, value);
+				},
+				keys: () => Array.from(state.keys()),
+			} as unknown as vscode.Memento;
+			const context = {
+				globalState,
+				secrets: {
+					get: async () => "test-key",
+					store: async () => {},
+					delete: async () => {},
+					onDidChange: (_listener: unknown) => ({ dispose() {} }),
+				},
+			} as unknown as vscode.ExtensionContext;
+			const cache = new ModelListCache(globalState);
+			const provider = new ChatGLMRouterProvider(
+				context.secrets,
+				new StatisticsManager(context),
+				"GitHubCopilotChat/test VSCode/test",
+				cache
+			);
+			return { provider, cache };
+		}
+
+		const model = (id: string) => ({ id, object: "model", created: 0, owned_by: "zhipu", providers: [] });
+
+		async function withFetch<T>(stub: typeof fetch, fn: () => Promise<T>): Promise<T> {
+			const realFetch = globalThis.fetch;
+			globalThis.fetch = stub;
+			try {
+				return await fn();
+			} finally {
+				globalThis.fetch = realFetch;
+			}
+		}
+
+		test("serves a fresh cached list without fetching", async () => {
+			const { provider } = createCachedProvider({
+				"chatglm-router.modelCache": { [CODING_KEY]: { models: [model("glm-4.6")], fetchedAt: Date.now() } },
+			});
+			let fetched = 0;
+			const infos = await withFetch(
+				async () => {
+					fetched++;
+					throw new TypeError("fetch failed");
+				},
+				() => provider.prepareLanguageModelChatInformation({ silent: true }, new vscode.CancellationTokenSource().token)
+			);
+			assert.equal(fetched, 0);
+			assert.deepEqual(infos.map((i) => i.id), ["chatglm-coding:glm-4.6"]);
+		});
+
+		test("keeps serving a stale cached list when the refresh fails", async () => {
+			const { provider, cache } = createCachedProvider({
+				"chatglm-router.modelCache": { [CODING_KEY]: { models: [model("glm-4.5")], fetchedAt: 0 } },
+			});
+			let fetched = 0;
+			const infos = await withFetch(
+				async () => {
+					fetched++;
+					return new Response("Unauthorized", { status: 401 });
+				},
+				async () => {
+					const result = await provider.prepareLanguageModelChatInformation(
+						{ silent: true },
+						new vscode.CancellationTokenSource().token
+					);
+					// Let the background refresh settle before restoring fetch
+					await new Promise((resolve) => setTimeout(resolve, 50));
+					return result;
+				}
+			);
+			assert.equal(fetched, 1);
+			assert.deepEqual(infos.map((i) => i.id), ["chatglm-coding:glm-4.5"]);
+			assert.deepEqual(cache.get(CODING_KEY)?.models.map((m) => m.id), ["glm-4.5"]);
+		});
+
+		test("a list cached for another endpoint or key profile is not served", async () => {
+			const { provider } = createCachedProvider({
+				"chatglm-router.modelCache": {
+					[modelCacheKey("chatglm-coding", "https://old.example.com/v4", DEFAULT_PROFILE)]: { models: [model("glm-4.5")], fetchedAt: Date.now() },
+					[modelCacheKey("chatglm-coding", getProviderById("chatglm-coding")!.baseUrl, "work")]: { models: [model("glm-4.5")], fetchedAt: Date.now() },
+				},
+			});
+			let fetched = 0;
+			const stub = (async () => {
+				fetched++;
+				return new Response(JSON.stringify({ object: "list", data: [model("glm-4.6")] }), { status: 200 });
+			}) as typeof fetch;
+			const infos = await withFetch(stub, () =>
+				provider.prepareLanguageModelChatInformation({ silent: true }, new vscode.CancellationTokenSource().token)
+			);
+			assert.equal(fetched, 1);
+			assert.deepEqual(infos.map((i) => i.id), ["chatglm-coding:glm-4.6"]);
+		});
+
+		test("caches the fetched list and refreshModels updates it", async () => {
+			const { provider, cache } = createCachedProvider({});
+			let ids = ["glm-4.6"];
+			const stub = (async () =>
+				new Response(JSON.stringify({ object: "list", data: ids.map(model) }), { status: 200 })) as typeof fetch;
+
+			let changed = 0;
+			const listener = provider.onDidChangeLanguageModelInformation(() => changed++);
+			try {
+				await withFetch(stub, async () => {
+					await provider.prepareLanguageModelChatInformation({ silent: true }, new vscode.CancellationTokenSource().token);
+					assert.deepEqual(cache.get(CODING_KEY)?.models.map((m) => m.id), ["glm-4.6"]);
+
+					ids = ["glm-4.6", "glm-4.7"];
+					const count = await provider.refreshModels();
+					assert.equal(count, 2);
+				});
+			} finally {
+				listener.dispose();
+			}
+			assert.deepEqual(cache.get(CODING_KEY)?.models.map((m) => m.id), ["glm-4.6", "glm-4.7"]);
+			assert.equal(changed, 1);
+		});
+	});
+
+	suite("statistics", () => {
+		test("recordRequest tracks cached and estimated tokens", async () => {
+			let stored: unknown;
+			const context = {
+				globalState: {
+					get: () => stored,
+					update: async (_key: string, value: unknown) => {
+						stored = value;
+					},
+					keys: () => [],
+				},
+			} as unknown as vscode.ExtensionContext;
+
+			const statsManager = new StatisticsManager(context);
+			await statsManager.recordRequest("chatglm-coding", "glm-4.6", {
+				inputTokens: 100,
+				outputTokens: 20,
+				cachedTokens: 40,
+			});
+			await statsManager.recordRequest("chatglm-coding", "glm-4.6", {
+				inputTokens: 50,
+				outputTokens: 10,
+				inputEstimated: true,
+				outputEstimated: true,
+			});
+
+			const stats = await statsManager.getModelStats("chatglm-coding", "glm-4.6");
+			assert.ok(stats);
+			assert.equal(stats.requestCount, 2);
+			assert.equal(stats.totalInputTokens, 150);
+			assert.equal(stats.totalOutputTokens, 30);
+			assert.equal(stats.totalCachedTokens, 40);
+			assert.equal(stats.estimatedInputTokens, 50);
+			assert.equal(stats.estimatedOutputTokens, 10);
+		});
+
+		test("recordRequest tracks reasoning tokens", async () => {
+			let stored: unknown;
+			const context = {
+				globalState: {
+					get: () => stored,
+					update: async (_key: string, value: unknown) => {
+						stored = value;
+					},
+					keys: () => [],
+				},
+			} as unknown as vscode.ExtensionContext;
+
+			const statsManager = new StatisticsManager(context);
+			await statsManager.recordRequest("chatglm-coding", "glm-4.6", { inputTokens: 10, outputTokens: 30, reasoningTokens: 20 });
+			await statsManager.recordRequest("chatglm-coding", "glm-4.6", { inputTokens: 10, outputTokens: 5 });
+
+			const stats = await statsManager.getModelStats("chatglm-coding", "glm-4.6");
+			assert.ok(stats);
+			assert.equal(stats.totalOutputTokens, 35);
+			assert.equal(stats.totalReasoningTokens, 20);
+		});
+
+		test("recordRequest attributes usage to the API key profile", async () => {
+			let stored: unknown;
+			const context = {
+				globalState: {
+					get: () => stored,
+					update: async (_key: string, value: unknown) => {
+						stored = value;
+					},
+					keys: () => [],
+				},
+			} as unknown as vscode.ExtensionContext;
+
+			const statsManager = new StatisticsManager(context);
+			await statsManager.recordRequest("chatglm-coding", "glm-4.6", { inputTokens: 10, outputTokens: 5 }, "personal");
+			await statsManager.recordRequest("chatglm-coding", "glm-4.6", { inputTokens: 20, outputTokens: 5 }, "work");
+			await statsManager.recordRequest("chatglm-coding", "glm-4.5", { inputTokens: 30, outputTokens: 5 }, "work");
+
+			const profiles = await statsManager.getProfileStats("chatglm-coding");
+			assert.equal(profiles.get("personal")?.requestCount, 1);
+			assert.equal(profiles.get("personal")?.totalTokens, 15);
+			assert.equal(profiles.get("work")?.requestCount, 2);
+			assert.equal(profiles.get("work")?.totalTokens, 60);
+		});
+	});
+
 	suite("utils/convertMessages", () => {
 		test("maps user/assistant text", () => {
 			const messages: vscode.LanguageModelChatMessage[] = [
@@ -296,6 +650,142 @@ suite("ChatGLM Router Extension", () => {
 			assert.ok(Array.isArray(out[0].tool_calls) && out[0].tool_calls.length === 1);
 			assert.equal(out[0].tool_calls?.[0].function.name, "search");
 		});
+
+		test("converts image data parts for vision models", () => {
+			const image = { mimeType: "image/png", data: new Uint8Array([0x89, 0x50, 0x4e, 0x47]) };
+			const msg: vscode.LanguageModelChatRequestMessage = {
+				role: vscode.LanguageModelChatMessageRole.User,
+				content: [new vscode.LanguageModelTextPart("what is this?"), image],
+				name: undefined,
+			};
+			const out = convertMessages([msg], { imageInput: true });
+			assert.deepEqual(out, [
+				{
+					role: "user",
+					content: [
+						{ type: "text", text: "what is this?" },
+						{ type: "image_url", image_url: { url: "data:image/png;base64,iVBORw==" } },
+					],
+				},
+			]);
+		});
+
+		test("replaces images with a placeholder for non-vision models", () => {
+			const msg: vscode.LanguageModelChatRequestMessage = {
+				role: vscode.LanguageModelChatMessageRole.User,
+				content: [new vscode.LanguageModelTextPart("see "), { mimeType: "image/jpeg", data: new Uint8Array([1, 2]) }],
+				name: undefined,
+			};
+			const out = convertMessages([msg]);
+			assert.equal(out.length, 1);
+			assert.equal(typeof out[0].content, "string");
+			assert.ok((out[0].content as string).startsWith("see [image omitted"));
+		});
+
+		test("rejects oversized and unsupported images with a clear error", () => {
+			const big: vscode.LanguageModelChatRequestMessage = {
+				role: vscode.LanguageModelChatMessageRole.User,
+				content: [{ mimeType: "image/png", data: new Uint8Array(6 * 1024 * 1024) }],
+				name: undefined,
+			};
+			assert.throws(() => convertMessages([big], { imageInput: true }), /too large \(6\.0 MB\)/);
+
+			const webp: vscode.LanguageModelChatRequestMessage = {
+				role: vscode.LanguageModelChatMessageRole.User,
+				content: [{ mimeType: "image/webp", data: new Uint8Array(10) }],
+				name: undefined,
+			};
+			assert.throws(() => convertMessages([webp], { imageInput: true }), /Unsupported image type "image\/webp"/);
+		});
+
+		/** Convert one tool result sent in a user message */
+		function convertToolResultMessage(content: unknown[], imageInput = false) {
+			const msg: vscode.LanguageModelChatRequestMessage = {
+				role: vscode.LanguageModelChatMessageRole.User,
+				content: [new vscode.LanguageModelToolResultPart("call_1", content)],
+				name: undefined,
+			};
+			return convertMessages([msg], { imageInput });
+		}
+
+		test("serializes JSON and text data parts in tool results", () => {
+			const json = { mimeType: "application/json", data: new TextEncoder().encode('{"files":["a.ts"],"total":1}') };
+			const text = { mimeType: "text/plain", data: new TextEncoder().encode("done") };
+			const out = convertToolResultMessage([new vscode.LanguageModelTextPart("Result:"), json, text]);
+			assert.deepEqual(out, [{ role: "tool", tool_call_id: "call_1", content: 'Result:\n{\n  "files": [\n    "a.ts"\n  ],\n  "total": 1\n}\ndone' }]);
+		});
+
+		test("caps large JSON tool results", () => {
+			const big = { mimeType: "application/json", data: new TextEncoder().encode(JSON.stringify({ items: "x".repeat(MAX_TOOL_RESULT_PART_CHARS) })) };
+			const content = convertToolResultMessage([big])[0].content as string;
+			assert.ok(content.length < MAX_TOOL_RESULT_PART_CHARS + 100);
+			assert.match(content, /\[\.\.\. truncated \d+ characters \.\.\.\]$/);
+		});
+
+		test("renders prompt-tsx tool results to text", () => {
+			// Output of renderElementJSON for a result with a line and two TextChunks
+			const tree = {
+				node: {
+					type: 1,
+					ctor: 2,
+					ctorName: "Result",
+					children: [
+						{ type: 2, priority: 9007199254740991, text: "Found 2 matches:", lineBreakBefore: false },
+						{
+							type: 1,
+							ctor: 2,
+							ctorName: "TextChunk",
+							children: [{ type: 2, priority: 9007199254740991, text: "src/a.ts:3 const a = 1;", references: [], lineBreakBefore: true }],
+							props: {},
+							references: [],
+						},
+						{
+							type: 1,
+							ctor: 2,
+							ctorName: "TextChunk",
+							children: [{ type: 2, priority: 9007199254740991, text: "src/b.ts:9 export { a };", references: [], lineBreakBefore: true }],
+							props: {},
+							references: [],
+						},
+					],
+					props: {},
+					references: [],
+				},
+			};
+			const out = convertToolResultMessage([new vscode.LanguageModelPromptTsxPart(tree)]);
+			assert.equal(out[0].content, "Found 2 matches:\nsrc/a.ts:3 const a = 1;\nsrc/b.ts:9 export { a };");
+		});
+
+		test("forwards tool result images to vision models in a user message", () => {
+			const image = { mimeType: "image/png", data: new Uint8Array([0x89, 0x50, 0x4e, 0x47]) };
+			const out = convertToolResultMessage([new vscode.LanguageModelTextPart("Screenshot taken"), image], true);
+			assert.deepEqual(out, [
+				{ role: "tool", tool_call_id: "call_1", content: "Screenshot taken\n[image 1 returned by the tool is attached below]" },
+				{
+					role: "user",
+					content: [
+						{ type: "text", text: "Images returned by tool call call_1:" },
+						{ type: "image_url", image_url: { url: "data:image/png;base64,iVBORw==" } },
+					],
+				},
+			]);
+		});
+
+		test("describes tool result images and binary data for other models", () => {
+			const image = { mimeType: "image/png", data: new Uint8Array(2048) };
+			const binary = { mimeType: "application/pdf", data: new Uint8Array(10) };
+			const marker = { mimeType: "cache_control", data: new TextEncoder().encode("ephemeral") };
+			const out = convertToolResultMessage([image, binary, marker]);
+			assert.deepEqual(out, [
+				{
+					role: "tool",
+					tool_call_id: "call_1",
+					content:
+						"[image returned by the tool (image/png, 2.0 KB): the selected model does not accept image input]\n" +
+						"[binary data returned by the tool (application/pdf, 10 B)]",
+				},
+			]);
+		});
 	});
 
 	suite("utils/tools", () => {
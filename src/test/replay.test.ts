@@ -0,0 +1,296 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { ChatGLMRouterProvider } from "../provider";
+import { StatisticsManager } from "../statistics";
+import { ApiKeyStore } from "../api-keys";
+import { reloadCustomProviders, type TimeoutSettings } from "../config";
+import { RequestTimeoutError } from "../timeouts";
+import { StreamApiError } from "../stream-session";
+import { MockChatGLMServer, deltaChunk, splitChunks, sseChunks, usageChunk } from "./mock-server";
+import { loadFixture, replayFixture } from "./fixtures";
+
+const MODEL = {
+	id: "mock:glm-4.6",
+	name: "glm-4.6",
+	family: "chatglm",
+	version: "1.0.0",
+	maxInputTokens: 100000,
+	maxOutputTokens: 8192,
+	capabilities: { toolCalling: true },
+} as unknown as vscode.LanguageModelChatInformation;
+
+const READ_FILE_TOOL = {
+	name: "read_file",
+	description: "Read a file",
+	inputSchema: { type: "object", properties: { path: { type: "string" } }, required: ["path"] },
+};
+
+/** Provider wired to the mock server through a custom provider entry */
+function createProvider(server: MockChatGLMServer, timeouts?: TimeoutSettings) {
+	reloadCustomProviders([{ id: "mock", name: "Mock GLM", baseUrl: server.baseUrl, timeouts }]);
+	const secrets = new Map<string, string>([["chatglm-router.apiKey.custom.mock", "mock-key"]]);
+	const state = new Map<string, unknown>();
+	const context = {
+		globalState: {
+			get: (key: string) => state.get(key),
+			update: async (key: string, value: unknown) => {
+				state.set(key, value);
+			},
+			keys: () => [...state.keys()],
+		},
+		secrets: {
+			get: async (key: string) => secrets.get(key),
+			store: async (key: string, value: string) => {
+				secrets.set(key, value);
+			},
+			delete: async (key: string) => {
+				secrets.delete(key);
+			},
+			onDidChange: (_listener: unknown) => ({ dispose() {} }),
+		},
+	} as unknown as vscode.ExtensionContext;
+	const stats = new StatisticsManager(context);
+	const provider = new ChatGLMRouterProvider(context.secrets, stats, "GitHubCopilotChat/test VSCode/test", undefined, new ApiKeyStore(context.secrets));
+	return { provider, stats };
+}
+
+/** Run one chat request and collect the reported parts */
+async function chat(
+	provider: ChatGLMRouterProvider,
+	options: Partial<vscode.LanguageModelChatRequestHandleOptions> = {},
+	prompt = "hi"
+): Promise<vscode.LanguageModelResponsePart[]> {
+	const parts: vscode.LanguageModelResponsePart[] = [];
+	await provider.provideLanguageModelChatResponse(
+		MODEL,
+		[vscode.LanguageModelChatMessage.User(prompt)],
+		options as vscode.LanguageModelChatRequestHandleOptions,
+		{ report: (part) => parts.push(part) },
+		new vscode.CancellationTokenSource().token
+	);
+	return parts;
+}
+
+function textOf(parts: vscode.LanguageModelResponsePart[]): string {
+	return parts
+		.filter((p): p is vscode.LanguageModelTextPart => p instanceof vscode.LanguageModelTextPart)
+		.map((p) => p.value)
+		.join("");
+}
+
+function toolCallsOf(parts: vscode.LanguageModelResponsePart[]): vscode.LanguageModelToolCallPart[] {
+	return parts.filter((p): p is vscode.LanguageModelToolCallPart => p instanceof vscode.LanguageModelToolCallPart);
+}
+
+suite("replay", () => {
+	let server: MockChatGLMServer;
+
+	setup(async () => {
+		server = new MockChatGLMServer();
+		await server.start();
+	});
+
+	teardown(async () => {
+		reloadCustomProviders([]);
+		await server.stop();
+	});
+
+	test("lists the models served by /models", async () => {
+		const { provider } = createProvider(server);
+		const infos = await provider.prepareLanguageModelChatInformation({ silent: true }, new vscode.CancellationTokenSource().token);
+		assert.ok(infos.some((i) => i.id === "mock:glm-4.6"));
+		assert.ok(server.requests.some((r) => r.path === "/models" && r.authorization === "Bearer mock-key"));
+	});
+
+	test("streams text and records server-reported usage", async () => {
+		const { provider, stats } = createProvider(server);
+		server.enqueue(replayFixture("text-usage"));
+		const parts = await chat(provider);
+		assert.equal(textOf(parts), "你好！有什么可以帮你的？");
+
+		const request = server.requests.find((r) => r.path === "/chat/completions");
+		assert.equal(request?.authorization, "Bearer mock-key");
+		assert.equal(request?.body?.model, "glm-4.6");
+		assert.equal(request?.body?.stream, true);
+
+		const usage = await stats.getModelStats("mock", "mock:glm-4.6");
+		assert.ok(usage);
+		assert.equal(usage.requestCount, 1);
+		assert.equal(usage.totalInputTokens, 8);
+		assert.equal(usage.totalOutputTokens, 7);
+		assert.ok(!usage.estimatedInputTokens);
+	});
+
+	test("chunk boundaries do not change the result", async () => {
+		const { provider } = createProvider(server);
+		const fixture = loadFixture("text-usage");
+		for (const size of [1, 7, 64]) {
+			server.enqueue({ kind: "stream", chunks: splitChunks(fixture.chunks, size) });
+			assert.equal(textOf(await chat(provider)), "你好！有什么可以帮你的？", `chunk size ${size}`);
+		}
+	});
+
+	test("assembles tool calls split across deltas", async () => {
+		const { provider } = createProvider(server);
+		server.enqueue(replayFixture("tool-call-split"));
+		const parts = await chat(provider, { tools: [READ_FILE_TOOL] });
+		assert.equal(textOf(parts).trim(), "Let me read the file.");
+		const [call, ...rest] = toolCallsOf(parts);
+		assert.equal(rest.length, 0);
+		assert.equal(call.callId, "call_-8283574839210512");
+		assert.equal(call.name, "read_file");
+		assert.deepEqual(call.input, { path: "src/a.ts" });
+	});
+
+	test("parses inline tool-call tokens cut across chunks", async () => {
+		const { provider } = createProvider(server);
+		server.enqueue(replayFixture("inline-tool-tokens"));
+		const parts = await chat(provider, { tools: [READ_FILE_TOOL] });
+		assert.equal(textOf(parts), "I'll check it.");
+		const calls = toolCallsOf(parts);
+		assert.equal(calls.length, 1);
+		assert.equal(calls[0].name, "read_file");
+		assert.deepEqual(calls[0].input, { path: "src/a.ts" });
+	});
+
+	test("data lines without blank lines between events are parsed one by one", async () => {
+		const { provider, stats } = createProvider(server);
+		server.enqueue(replayFixture("data-lines-without-blank-lines"));
+		assert.equal(textOf(await chat(provider)), "你好！有什么可以帮你的？");
+		assert.equal((await stats.getModelStats("mock", "mock:glm-4.6"))?.totalInputTokens, 8);
+	});
+
+	test("falls back to estimates when the stream has no usage", async () => {
+		const { provider, stats } = createProvider(server);
+		server.enqueue({ kind: "stream", chunks: sseChunks([deltaChunk({ content: "Hello there" }), deltaChunk({ content: "" }, "stop")]) });
+		await chat(provider);
+		const usage = await stats.getModelStats("mock", "mock:glm-4.6");
+		assert.ok(usage);
+		assert.ok(usage.totalOutputTokens > 0);
+		assert.equal(usage.estimatedInputTokens, usage.totalInputTokens);
+		assert.equal(usage.estimatedOutputTokens, usage.totalOutputTokens);
+	});
+
+	test("surfaces an error event after partial output", async () => {
+		const { provider, stats } = createProvider(server);
+		server.enqueue(replayFixture("stream-error"));
+		const parts: vscode.LanguageModelResponsePart[] = [];
+		await assert.rejects(
+			provider.provideLanguageModelChatResponse(
+				MODEL,
+				[vscode.LanguageModelChatMessage.User("hi")],
+				{} as vscode.LanguageModelChatRequestHandleOptions,
+				{ report: (part) => parts.push(part) },
+				new vscode.CancellationTokenSource().token
+			),
+			(err: unknown) =>
+				err instanceof vscode.LanguageModelError &&
+				err.code === "Blocked" &&
+				(err as { cause?: unknown }).cause instanceof StreamApiError &&
+				((err as { cause?: unknown }).cause as StreamApiError).code === "1301"
+		);
+		assert.equal(textOf(parts), "Sure, here");
+		// Partial output must not be retried
+		assert.equal(server.requests.filter((r) => r.path === "/chat/completions").length, 1);
+		assert.equal(await stats.getModelStats("mock", "mock:glm-4.6"), null);
+	});
+
+	test("maps a balance error sent mid-stream to LanguageModelError", async () => {
+		const { provider } = createProvider(server);
+		server.enqueue({
+			kind: "stream",
+			chunks: sseChunks([deltaChunk({ content: "Let me" }), { error: { code: "1113", message: "余额不足或无可用资源包,请充值。" } }]),
+		});
+		await assert.rejects(
+			chat(provider),
+			(err: unknown) => err instanceof vscode.LanguageModelError && err.code === "Blocked" && err.message.includes("(1113: 余额不足")
+		);
+	});
+
+	test("maps HTTP error envelopes to LanguageModelError", async () => {
+		const { provider } = createProvider(server);
+		server.enqueue({ kind: "json", status: 401, body: { error: { code: "1002", message: "Authorization Token非法" } } });
+		await assert.rejects(chat(provider), (err: unknown) => err instanceof vscode.LanguageModelError && err.code === "NoPermissions");
+	});
+
+	test("a stalled first response is retried", async () => {
+		const { provider } = createProvider(server, { firstTokenSeconds: 0.2 });
+		server.enqueue({ kind: "stream", chunks: [], hang: true }, replayFixture("text-usage"));
+		assert.equal(textOf(await chat(provider)), "你好！有什么可以帮你的？");
+		assert.equal(server.requests.filter((r) => r.path === "/chat/completions").length, 2);
+	});
+
+	test("a stream that stalls after output fails with an idle timeout and is recorded", async () => {
+		const { provider, stats } = createProvider(server, { idleSeconds: 0.2 });
+		server.enqueue({ kind: "stream", chunks: sseChunks([deltaChunk({ content: "partial" })]).slice(0, 1), hang: true });
+		const parts: vscode.LanguageModelResponsePart[] = [];
+		await assert.rejects(
+			provider.provideLanguageModelChatResponse(
+				MODEL,
+				[vscode.LanguageModelChatMessage.User("hi")],
+				{} as vscode.LanguageModelChatRequestHandleOptions,
+				{ report: (part) => parts.push(part) },
+				new vscode.CancellationTokenSource().token
+			),
+			(err: unknown) => err instanceof RequestTimeoutError && err.kind === "idle"
+		);
+		assert.equal(textOf(parts), "partial");
+		assert.equal(server.requests.filter((r) => r.path === "/chat/completions").length, 1);
+		const usage = await stats.getModelStats("mock", "mock:glm-4.6");
+		assert.equal(usage?.timedOutCount, 1);
+		assert.equal(usage?.cancelledCount, undefined);
+	});
+
+	test("the total deadline is not retried", async () => {
+		const { provider } = createProvider(server, { firstTokenSeconds: 0, totalSeconds: 0.2 });
+		server.enqueue({ kind: "stream", chunks: [], hang: true }, replayFixture("text-usage"));
+		await assert.rejects(chat(provider), (err: unknown) => err instanceof RequestTimeoutError && err.kind === "total");
+		assert.equal(server.requests.filter((r) => r.path === "/chat/completions").length, 1);
+	});
+
+	test("requests with more than 128 tools send the most relevant ones", async () => {
+		const { provider } = createProvider(server);
+		server.enqueue(replayFixture("text-usage"));
+		const tools = Array.from({ length: 140 }, (_, i) => ({ ...READ_FILE_TOOL, name: `tool_${i}`, description: `Helper number ${i}` }));
+		tools[135] = READ_FILE_TOOL;
+		await chat(provider, { tools }, "Read the file src/a.ts");
+		const sent = server.requests.find((r) => r.path === "/chat/completions")?.body?.tools as { function: { name: string } }[];
+		assert.equal(sent.length, 128);
+		assert.ok(sent.some((t) => t.function.name === "read_file"));
+	});
+
+	test("GLM request parameters from modelOptions are sent", async () => {
+		const { provider } = createProvider(server);
+		server.enqueue(replayFixture("text-usage"));
+		await chat(provider, {
+			modelOptions: { temperature: 0, top_p: 0.5, do_sample: false, seed: 42, response_format: { type: "json_object" }, tool_stream: true, top_k: 3 },
+		});
+		const body = server.requests.find((r) => r.path === "/chat/completions")?.body;
+		assert.equal(body?.temperature, 0);
+		assert.equal(body?.top_p, 0.5);
+		assert.equal(body?.do_sample, false);
+		assert.equal(body?.seed, 42);
+		assert.deepEqual(body?.response_format, { type: "json_object" });
+		assert.equal(body?.tool_stream, true);
+		assert.equal(body?.max_tokens, 4096);
+		assert.ok(!("top_k" in (body ?? {})));
+	});
+
+	test("web search is not sent to a custom provider whose model lacks the capability", async () => {
+		const { provider } = createProvider(server);
+		server.enqueue(replayFixture("text-usage"));
+		await chat(provider, { tools: [READ_FILE_TOOL], modelOptions: { web_search: { enabled: true, searchEngine: "search_pro", count: 3 } } });
+		const tools = server.requests.find((r) => r.path === "/chat/completions")?.body?.tools as Record<string, unknown>[];
+		assert.deepEqual(
+			tools.map((t) => t.type),
+			["function"]
+		);
+	});
+
+	test("usage chunks without choices are accepted", async () => {
+		const { provider, stats } = createProvider(server);
+		server.enqueue({ kind: "stream", chunks: sseChunks([deltaChunk({ content: "ok" }, "stop"), usageChunk(12, 1)]) });
+		assert.equal(textOf(await chat(provider)), "ok");
+		assert.equal((await stats.getModelStats("mock", "mock:glm-4.6"))?.totalInputTokens, 12);
+	});
+});
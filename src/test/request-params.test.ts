@@ -0,0 +1,82 @@
+import * as assert from "assert";
+import { mergeModelDefaults, resolveRequestParameters } from "../request-params";
+
+suite("request-params", () => {
+	test("built-in defaults apply when nothing is set", () => {
+		const { params, ignored } = resolveRequestParameters("glm-4.6", 131072, undefined, {});
+		assert.deepEqual(params, { max_tokens: 4096, temperature: 0.7 });
+		assert.deepEqual(ignored, []);
+	});
+
+	test("request options win over per-model defaults", () => {
+		const { params } = resolveRequestParameters(
+			"glm-4.6",
+			131072,
+			{ temperature: 0.2, top_p: 0.9, request_id: "req-000123" },
+			{ temperature: 0, do_sample: false, seed: 42, user_id: "agent-7" }
+		);
+		assert.deepEqual(params, {
+			max_tokens: 4096,
+			temperature: 0.2,
+			top_p: 0.9,
+			do_sample: false,
+			seed: 42,
+			user_id: "agent-7",
+			request_id: "req-000123",
+		});
+	});
+
+	test("invalid values fall back to the next layer and are reported", () => {
+		const { params, ignored } = resolveRequestParameters(
+			"glm-4.6",
+			131072,
+			{ temperature: 1.5, seed: 1.5, max_tokens: 0 },
+			{ temperature: 0.1, request_id: "fixed-request", unknown_option: 1 }
+		);
+		assert.equal(params.temperature, 0.1);
+		assert.equal(params.seed, undefined);
+		assert.equal(params.max_tokens, 4096);
+		assert.equal(params.request_id, undefined);
+		assert.equal(ignored.find((i) => i.name === "max_tokens")?.reason, `expected an integer in [1, ${Number.MAX_SAFE_INTEGER}]`);
+		assert.deepEqual(
+			ignored.map((i) => `${i.source}:${i.name}`).sort(),
+			["request:max_tokens", "request:seed", "request:temperature", "settings:request_id", "settings:unknown_option"]
+		);
+	});
+
+	test("max_tokens is capped at the model's output limit", () => {
+		assert.equal(resolveRequestParameters("glm-4-plus", 4096, { max_tokens: 50000 }, {}).params.max_tokens, 4096);
+		assert.equal(resolveRequestParameters("glm-4-plus", 1024, undefined, {}).params.max_tokens, 1024);
+	});
+
+	test("response_format accepts JSON mode and JSON schema", () => {
+		const schema = { type: "json_schema", json_schema: { name: "answer", schema: { type: "object" } } };
+		assert.deepEqual(resolveRequestParameters("glm-4.6", 8192, { response_format: "json_object" }, {}).params.response_format, { type: "json_object" });
+		assert.deepEqual(resolveRequestParameters("glm-4.6", 8192, { response_format: schema }, {}).params.response_format, schema);
+
+		const invalid = resolveRequestParameters("glm-4.6", 8192, { response_format: { type: "json_schema" } }, {});
+		assert.equal(invalid.params.response_format, undefined);
+		assert.equal(invalid.ignored[0].name, "response_format");
+	});
+
+	test("tool_stream is only sent to models that support it", () => {
+		assert.equal(resolveRequestParameters("glm-4.6", 8192, { tool_stream: true }, {}).params.tool_stream, true);
+
+		const older = resolveRequestParameters("glm-4.5-air", 8192, { tool_stream: true }, {});
+		assert.equal(older.params.tool_stream, undefined);
+		assert.equal(older.ignored[0].reason, "not supported by glm-4.5-air");
+		assert.deepEqual(resolveRequestParameters("glm-4.5-air", 8192, { tool_stream: false }, {}).ignored, []);
+	});
+
+	test("per-model defaults merge from general to specific patterns", () => {
+		const perModel = {
+			"glm-4.6": { seed: 7 },
+			"*": { temperature: 0.3, seed: 1 },
+			"glm-4*": { temperature: 0 },
+			"glm-z1-*": { top_p: 0.5 },
+		};
+		assert.deepEqual(mergeModelDefaults(perModel, "GLM-4.6"), { temperature: 0, seed: 7 });
+		assert.deepEqual(mergeModelDefaults(perModel, "glm-4.5"), { temperature: 0, seed: 1 });
+		assert.deepEqual(mergeModelDefaults(perModel, "other"), { temperature: 0.3, seed: 1 });
+	});
+});
@@ -0,0 +1,146 @@
+import * as assert from "assert";
+import * as http from "http";
+import type { AddressInfo } from "net";
+import * as vscode from "vscode";
+import {
+	HttpStatusError,
+	computeBackoffDelay,
+	parseRetryAfter,
+	runWithRetry,
+	type RetryPolicy,
+} from "../retry";
+
+/** Start a stub server that answers each request with the next scripted response */
+async function startStubServer(
+	responses: { status: number; headers?: Record<string, string>; body?: string }[]
+): Promise<{ url: string; hits: () => number; close: () => Promise<void> }> {
+	let count = 0;
+	const server = http.createServer((_req, res) => {
+		const next = responses[Math.min(count, responses.length - 1)];
+		count++;
+		res.writeHead(next.status, next.headers ?? {});
+		res.end(next.body ?? "");
+	});
+	await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+	const { port } = server.address() as AddressInfo;
+	return {
+		url: `http://127.0.0.1:${port}`,
+		hits: () => count,
+		close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+	};
+}
+
+/** Fetch through the retry helper the same way the provider does */
+function fetchWithPolicy(url: string, policy: RetryPolicy, options?: { token?: vscode.CancellationToken; canRetry?: () => boolean }) {
+	return runWithRetry(async () => {
+		const resp = await fetch(url);
+		if (!resp.ok) {
+			throw await HttpStatusError.fromResponse(resp, "Stub API error");
+		}
+		return resp.text();
+	}, { policy, label: "stub", ...options });
+}
+
+const FAST_POLICY: RetryPolicy = { maxAttempts: 3, initialDelayMs: 5, maxDelayMs: 50 };
+
+suite("retry", () => {
+	test("parseRetryAfter handles seconds and HTTP dates", () => {
+		assert.equal(parseRetryAfter("2"), 2000);
+		assert.equal(parseRetryAfter("0.5"), 500);
+		const now = Date.parse("Wed, 21 Oct 2026 07:28:00 GMT");
+		assert.equal(parseRetryAfter("Wed, 21 Oct 2026 07:28:03 GMT", now), 3000);
+		assert.equal(parseRetryAfter("soon"), undefined);
+		assert.equal(parseRetryAfter(null), undefined);
+	});
+
+	test("computeBackoffDelay grows exponentially and is capped", () => {
+		const policy: RetryPolicy = { maxAttempts: 5, initialDelayMs: 100, maxDelayMs: 300 };
+		assert.equal(computeBackoffDelay(1, policy, () => 0), 50);
+		assert.equal(computeBackoffDelay(2, policy, () => 0.999999), 200);
+		assert.equal(computeBackoffDelay(5, policy, () => 0), 150);
+	});
+
+	test("retries transient 502 and 429 responses until success", async () => {
+		const server = await startStubServer([
+			{ status: 502 },
+			{ status: 429, headers: { "Retry-After": "0" } },
+			{ status: 200, body: "ok" },
+		]);
+		try {
+			const text = await fetchWithPolicy(server.url, FAST_POLICY);
+			assert.equal(text, "ok");
+			assert.equal(server.hits(), 3);
+		} finally {
+			await server.close();
+		}
+	});
+
+	test("does not retry client errors", async () => {
+		const server = await startStubServer([{ status: 401, body: "{\"error\":{\"code\":\"1000\"}}" }]);
+		try {
+			await assert.rejects(fetchWithPolicy(server.url, FAST_POLICY), (err: unknown) => {
+				assert.ok(err instanceof HttpStatusError);
+				assert.equal(err.status, 401);
+				return true;
+			});
+			assert.equal(server.hits(), 1);
+		} finally {
+			await server.close();
+		}
+	});
+
+	test("does not retry a 429 for an exhausted balance", async () => {
+		const server = await startStubServer([{ status: 429, body: "{\"error\":{\"code\":\"1113\",\"message\":\"余额不足\"}}" }]);
+		try {
+			await assert.rejects(fetchWithPolicy(server.url, FAST_POLICY), HttpStatusError);
+			assert.equal(server.hits(), 1);
+		} finally {
+			await server.close();
+		}
+	});
+
+	test("gives up after maxAttempts", async () => {
+		const server = await startStubServer([{ status: 503 }]);
+		try {
+			await assert.rejects(fetchWithPolicy(server.url, FAST_POLICY), HttpStatusError);
+			assert.equal(server.hits(), FAST_POLICY.maxAttempts);
+		} finally {
+			await server.close();
+		}
+	});
+
+	test("does not retry when Retry-After exceeds maxDelayMs", async () => {
+		const server = await startStubServer([{ status: 429, headers: { "Retry-After": "60" } }]);
+		try {
+			await assert.rejects(fetchWithPolicy(server.url, FAST_POLICY), HttpStatusError);
+			assert.equal(server.hits(), 1);
+		} finally {
+			await server.close();
+		}
+	});
+
+	test("canRetry gate stops retries", async () => {
+		const server = await startStubServer([{ status: 503 }, { status: 200, body: "ok" }]);
+		try {
+			await assert.rejects(fetchWithPolicy(server.url, FAST_POLICY, { canRetry: () => false }), HttpStatusError);
+			assert.equal(server.hits(), 1);
+		} finally {
+			await server.close();
+		}
+	});
+
+	test("cancellation during backoff rejects with CancellationError", async () => {
+		const server = await startStubServer([{ status: 503 }, { status: 200, body: "ok" }]);
+		const cts = new vscode.CancellationTokenSource();
+		try {
+			const slowPolicy: RetryPolicy = { maxAttempts: 3, initialDelayMs: 10_000, maxDelayMs: 10_000 };
+			const pending = fetchWithPolicy(server.url, slowPolicy, { token: cts.token });
+			setTimeout(() => cts.cancel(), 50);
+			await assert.rejects(pending, vscode.CancellationError);
+			assert.equal(server.hits(), 1);
+		} finally {
+			cts.dispose();
+			await server.close();
+		}
+	});
+});
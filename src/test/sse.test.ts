@@ -0,0 +1,71 @@
+import * as assert from "assert";
+import { SSEParser, type SSEEvent } from "../sse";
+
+/** Feed every chunk and the end-of-stream signal, returning all events */
+function parseAll(chunks: string[], parser = new SSEParser()): SSEEvent[] {
+	const events: SSEEvent[] = [];
+	for (const chunk of chunks) {
+		events.push(...parser.feed(chunk));
+	}
+	events.push(...parser.end());
+	return events;
+}
+
+suite("sse", () => {
+	test("parses LF, CRLF and CR framing identically", () => {
+		for (const eol of ["\n", "\r\n", "\r"]) {
+			const events = parseAll([`data: {"a":1}${eol}${eol}data: {"b":2}${eol}${eol}`]);
+			assert.deepEqual(
+				events.map((e) => e.data),
+				["{\"a\":1}", "{\"b\":2}"],
+				`eol ${JSON.stringify(eol)}`
+			);
+		}
+	});
+
+	test("handles CRLF split across chunks", () => {
+		const events = parseAll(["data: one\r", "\n\r", "\ndata: two\r\n\r\n"]);
+		assert.deepEqual(events.map((e) => e.data), ["one", "two"]);
+	});
+
+	test("joins multi-line data fields with newlines", () => {
+		const events = parseAll(["data: first\ndata:second\ndata:  third\n\n"]);
+		assert.equal(events.length, 1);
+		assert.equal(events[0].data, "first\nsecond\n third");
+	});
+
+	test("tracks event type and id, and ignores comments", () => {
+		const parser = new SSEParser();
+		const events = parseAll([": keep-alive\n", "event: error\nid: 42\ndata: {}\n\n", "data: x\n\n"], parser);
+		assert.deepEqual(events, [
+			{ event: "error", data: "{}", id: "42" },
+			{ event: "message", data: "x", id: "42" },
+		]);
+		assert.equal(parser.stats.comments, 1);
+	});
+
+	test("counts dropped lines with unknown fields", () => {
+		const dropped: string[] = [];
+		const parser = new SSEParser((line) => dropped.push(line));
+		const events = parseAll(["foo: bar\nretry: soon\nretry: 1500\ndata: ok\n\n"], parser);
+		assert.deepEqual(events.map((e) => e.data), ["ok"]);
+		assert.equal(parser.stats.droppedLines, 2);
+		assert.deepEqual(dropped, ["foo: bar", "retry: soon"]);
+		assert.equal(parser.retry, 1500);
+	});
+
+	test("dispatches a trailing event without a final blank line", () => {
+		const events = parseAll(["data: [DONE]"]);
+		assert.deepEqual(events.map((e) => e.data), ["[DONE]"]);
+	});
+
+	test("strips a leading byte order mark", () => {
+		const events = parseAll(["\uFEFFdata: x\n\n"]);
+		assert.deepEqual(events.map((e) => e.data), ["x"]);
+	});
+
+	test("does not dispatch events without data", () => {
+		const events = parseAll(["event: ping\n\n\n"]);
+		assert.equal(events.length, 0);
+	});
+});
@@ -0,0 +1,308 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { ChatStreamSession, StreamApiError } from "../stream-session";
+
+/** Collect reported parts into an array */
+function collector(): { parts: vscode.LanguageModelResponsePart[]; progress: vscode.Progress<vscode.LanguageModelResponsePart> } {
+	const parts: vscode.LanguageModelResponsePart[] = [];
+	return { parts, progress: { report: (part) => parts.push(part) } };
+}
+
+/** Build a streamed tool-call delta chunk */
+function toolCallChunk(index: number, fields: { id?: string; name?: string; args?: string }, finish?: string) {
+	return {
+		choices: [
+			{
+				delta: {
+					tool_calls: [
+						{
+							index,
+							id: fields.id,
+							function: { name: fields.name, arguments: fields.args },
+						},
+					],
+				},
+				finish_reason: finish,
+			},
+		],
+	};
+}
+
+/** Build a body stream from raw text chunks */
+function rawStream(chunks: string[]): ReadableStream<Uint8Array> {
+	const encoder = new TextEncoder();
+	return new ReadableStream<Uint8Array>({
+		start(controller) {
+			for (const chunk of chunks) {
+				controller.enqueue(encoder.encode(chunk));
+			}
+			controller.close();
+		},
+	});
+}
+
+/** Build an SSE body stream that yields one event per read, pausing between reads */
+function sseStream(chunks: unknown[]): ReadableStream<Uint8Array> {
+	const encoder = new TextEncoder();
+	const events = [...chunks.map((c) => `data: ${JSON.stringify(c)}\n\n`), "data: [DONE]\n\n"];
+	return new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			const next = events.shift();
+			if (next === undefined) {
+				controller.close();
+				return;
+			}
+			// Yield to the event loop so concurrent readers interleave
+			await new Promise((resolve) => setTimeout(resolve, 1));
+			controller.enqueue(encoder.encode(next));
+		},
+	});
+}
+
+function toolCalls(parts: vscode.LanguageModelResponsePart[]): vscode.LanguageModelToolCallPart[] {
+	return parts.filter((p): p is vscode.LanguageModelToolCallPart => p instanceof vscode.LanguageModelToolCallPart);
+}
+
+suite("stream-session", () => {
+	test("interleaved deltas from two sessions do not share tool-call buffers", async () => {
+		const a = collector();
+		const b = collector();
+		const sessionA = new ChatStreamSession(a.progress);
+		const sessionB = new ChatStreamSession(b.progress);
+
+		await sessionA.processDelta(toolCallChunk(0, { id: "call_a", name: "read_file", args: "{\"path\":" }));
+		await sessionB.processDelta(toolCallChunk(0, { id: "call_b", name: "search", args: "{\"query\":\"fo" }));
+		await sessionA.processDelta(toolCallChunk(0, { args: "\"a.ts\"}" }));
+		await sessionB.processDelta(toolCallChunk(0, { args: "o\"}" }, "tool_calls"));
+
+		const callsA = toolCalls(a.parts);
+		const callsB = toolCalls(b.parts);
+		assert.equal(callsA.length, 1);
+		assert.equal(callsB.length, 1);
+		assert.deepEqual([callsA[0].callId, callsA[0].name, callsA[0].input], ["call_a", "read_file", { path: "a.ts" }]);
+		assert.deepEqual([callsB[0].callId, callsB[0].name, callsB[0].input], ["call_b", "search", { query: "foo" }]);
+	});
+
+	test("concurrent streams keep text, tool calls and token counts isolated", async () => {
+		const a = collector();
+		const b = collector();
+		const sessionA = new ChatStreamSession(a.progress);
+		const sessionB = new ChatStreamSession(b.progress);
+		const token = new vscode.CancellationTokenSource().token;
+
+		await Promise.all([
+			sessionA.processStreamingResponse(
+				sseStream([
+					{ choices: [{ delta: { content: "Title: " } }] },
+					{ choices: [{ delta: { content: "Fix the build" } }] },
+					{ choices: [], usage: { prompt_tokens: 12, completion_tokens: 4 } },
+				]),
+				token
+			),
+			sessionB.processStreamingResponse(
+				sseStream([
+					toolCallChunk(0, { id: "call_1", name: "run_in_terminal", args: "{\"command\":" }),
+					toolCallChunk(0, { args: "\"npm test\"}" }),
+					toolCallChunk(1, { id: "call_2", name: "read_file", args: "{\"path\":\"package.json\"}" }, "tool_calls"),
+				]),
+				token
+			),
+		]);
+
+		const textA = a.parts
+			.filter((p): p is vscode.LanguageModelTextPart => p instanceof vscode.LanguageModelTextPart)
+			.map((p) => p.value)
+			.join("");
+		assert.equal(textA, "Title: Fix the build");
+		assert.equal(toolCalls(a.parts).length, 0);
+		assert.deepEqual(sessionA.usage, { prompt_tokens: 12, completion_tokens: 4 });
+
+		const callsB = toolCalls(b.parts);
+		assert.deepEqual(
+			callsB.map((c) => [c.callId, c.name]),
+			[
+				["call_1", "run_in_terminal"],
+				["call_2", "read_file"],
+			]
+		);
+		assert.equal(sessionB.usage, undefined);
+		assert.ok(sessionB.outputTokenCount > 0);
+		assert.notEqual(sessionA.outputTokenCount, sessionB.outputTokenCount);
+	});
+
+	test("inline tool-call tokens are parsed per session", async () => {
+		const a = collector();
+		const b = collector();
+		const sessionA = new ChatStreamSession(a.progress);
+		const sessionB = new ChatStreamSession(b.progress);
+
+		await sessionA.processDelta({ choices: [{ delta: { content: "<|tool_call_begin|>list_dir<|tool_call_argument_begin|>{\"path\"" } }] });
+		await sessionB.processDelta({ choices: [{ delta: { content: "plain <|tool_call_begin|>grep<|tool_call_argument_begin|>{\"q\"" } }] });
+		await sessionA.processDelta({ choices: [{ delta: { content: ":\"src\"}<|tool_call_end|>" } }] });
+		await sessionB.processDelta({ choices: [{ delta: { content: ":1}<|tool_call_end|>" } }] });
+
+		assert.deepEqual(toolCalls(a.parts).map((c) => [c.name, c.input]), [["list_dir", { path: "src" }]]);
+		assert.deepEqual(toolCalls(b.parts).map((c) => [c.name, c.input]), [["grep", { q: 1 }]]);
+	});
+
+	test("error chunks sent mid-stream are thrown", async () => {
+		const a = collector();
+		const session = new ChatStreamSession(a.progress);
+		const token = new vscode.CancellationTokenSource().token;
+		await assert.rejects(
+			session.processStreamingResponse(
+				rawStream([
+					`data: ${JSON.stringify({ choices: [{ delta: { content: "Hel" } }] })}\r\n\r\n`,
+					`data: ${JSON.stringify({ error: { code: "1301", message: "unsafe content" } })}\r\n\r\n`,
+				]),
+				token
+			),
+			(err: unknown) => {
+				assert.ok(err instanceof StreamApiError);
+				assert.equal(err.code, "1301");
+				assert.ok(err.message.includes("unsafe content"));
+				return true;
+			}
+		);
+	});
+
+	test("malformed events are skipped and framing variants are accepted", async () => {
+		const a = collector();
+		const session = new ChatStreamSession(a.progress);
+		const token = new vscode.CancellationTokenSource().token;
+		await session.processStreamingResponse(
+			rawStream([
+				": ping\n\n",
+				"data: {not json}\n\n",
+				"data:{\"choices\":[{\"delta\":{\"content\":\"a\"}}]}\r",
+				"\n\r\n",
+				"event: message\ndata: {\"choices\":[{\"delta\":\n",
+				"data: {\"content\":\"b\"}}]}\n\n",
+				"data: [DONE]",
+			]),
+			token
+		);
+		const text = a.parts
+			.filter((p): p is vscode.LanguageModelTextPart => p instanceof vscode.LanguageModelTextPart)
+			.map((p) => p.value)
+			.join("");
+		assert.equal(text, "ab");
+	});
+
+	test("reasoning_content is reported as thinking and counted separately", async () => {
+		const a = collector();
+		const session = new ChatStreamSession(a.progress);
+		const token = new vscode.CancellationTokenSource().token;
+		await session.processStreamingResponse(
+			sseStream([
+				{ choices: [{ delta: { reasoning_content: "Let me think" } }] },
+				{ choices: [{ delta: { content: "Answer" } }] },
+				{ choices: [], usage: { prompt_tokens: 10, completion_tokens: 30, completion_tokens_details: { reasoning_tokens: 20 } } },
+			]),
+			token
+		);
+		// LanguageModelThinkingPart is a proposed API, so it is looked up at runtime
+		const ThinkingPart = (vscode as unknown as Record<string, (new (...args: unknown[]) => unknown) | undefined>).LanguageModelThinkingPart;
+		if (ThinkingPart) {
+			const thinking = a.parts.filter((p) => p instanceof ThinkingPart) as unknown as { value: string }[];
+			assert.equal(thinking.length, 1);
+			assert.equal(thinking[0].value, "Let me think");
+		}
+		assert.ok(session.reasoningTokenCount > 0);
+		assert.ok(session.outputTokenCount > session.reasoningTokenCount);
+		assert.equal(session.usage?.completion_tokens_details?.reasoning_tokens, 20);
+	});
+
+	test("tool call arguments cut off by max_tokens are repaired", async () => {
+		const a = collector();
+		const tools = [{ name: "edit", description: "", inputSchema: { type: "object", required: ["path"] } }];
+		const session = new ChatStreamSession(a.progress, tools);
+		const token = new vscode.CancellationTokenSource().token;
+		await session.processStreamingResponse(
+			sseStream([
+				toolCallChunk(0, { id: "call_1", name: "edit", args: "{'path': 'a.ts', 'force': True, 'lines': [1, 2," }),
+				toolCallChunk(0, {}, "length"),
+			]),
+			token
+		);
+		assert.deepEqual(toolCalls(a.parts).map((c) => [c.name, c.input]), [["edit", { path: "a.ts", force: true, lines: [1, 2] }]]);
+	});
+
+	test("repaired arguments that break the tool schema are rejected with the tool name", async () => {
+		const a = collector();
+		const tools = [{ name: "edit", description: "", inputSchema: { type: "object", required: ["path", "content"] } }];
+		const session = new ChatStreamSession(a.progress, tools);
+		const token = new vscode.CancellationTokenSource().token;
+		await assert.rejects(
+			session.processStreamingResponse(
+				sseStream([toolCallChunk(0, { id: "call_1", name: "edit", args: '{"path": "a.ts", "cont' }, "length")]),
+				token
+			),
+			/Invalid JSON for tool call "edit": \{"path": "a.ts", "cont/
+		);
+		assert.equal(toolCalls(a.parts).length, 0);
+	});
+
+	test("emitted tool call arguments are coerced to the tool schema", async () => {
+		const a = collector();
+		const tools = [
+			{
+				name: "read_lines",
+				description: "",
+				inputSchema: { type: "object", properties: { path: { type: "string" }, start: { type: "integer" } }, additionalProperties: false },
+			},
+		];
+		const session = new ChatStreamSession(a.progress, tools);
+		const token = new vscode.CancellationTokenSource().token;
+		await session.processStreamingResponse(
+			sseStream([toolCallChunk(0, { id: "call_1", name: "read_lines", args: '{"path": "a.ts", "start": "10", "verbose": true}' }, "tool_calls")]),
+			token
+		);
+		assert.deepEqual(toolCalls(a.parts).map((c) => c.input), [{ path: "a.ts", start: 10 }]);
+	});
+
+	test("web search results are cited after the answer", async () => {
+		const a = collector();
+		const session = new ChatStreamSession(a.progress);
+		const token = new vscode.CancellationTokenSource().token;
+		const results = [
+			{ title: "VS Code 1.104 release notes", link: "https://code.visualstudio.com/updates/v1_104", media: "code.visualstudio.com", refer: "ref_1" },
+			{ title: "Without link", refer: "ref_2" },
+		];
+		await session.processStreamingResponse(
+			sseStream([
+				{ web_search: results, choices: [{ delta: { content: "VS Code 1.104 shipped in August [ref_1]." } }] },
+				{ web_search: results, choices: [{ delta: { content: "" }, finish_reason: "stop" }] },
+			]),
+			token
+		);
+		const text = a.parts
+			.filter((p): p is vscode.LanguageModelTextPart => p instanceof vscode.LanguageModelTextPart)
+			.map((p) => p.value)
+			.join("");
+		assert.equal(
+			text,
+			"VS Code 1.104 shipped in August [ref_1].\n\n**Sources**\n\n- [1] [VS Code 1.104 release notes](https://code.visualstudio.com/updates/v1_104) — code.visualstudio.com\n"
+		);
+	});
+
+	test("web search results are not cited when the turn ends with tool calls", async () => {
+		const a = collector();
+		const tools = [{ name: "read", description: "", inputSchema: { type: "object" } }];
+		const session = new ChatStreamSession(a.progress, tools);
+		const token = new vscode.CancellationTokenSource().token;
+		await session.processStreamingResponse(
+			sseStream([
+				{ web_search: [{ title: "Docs", link: "https://example.com/docs", refer: "ref_1" }], choices: [{ delta: { content: "Checking the file." } }] },
+				toolCallChunk(0, { id: "call_1", name: "read", args: '{"path": "a.ts"}' }, "tool_calls"),
+			]),
+			token
+		);
+		const text = a.parts
+			.filter((p): p is vscode.LanguageModelTextPart => p instanceof vscode.LanguageModelTextPart)
+			.map((p) => p.value)
+			.join("");
+		assert.ok(!text.includes("Sources"));
+		assert.equal(toolCalls(a.parts).length, 1);
+	});
+});
@@ -0,0 +1,52 @@
+import * as assert from "assert";
+import { PROVIDERS } from "../config";
+import { RequestWatchdog, getRequestTimeouts, type TimeoutKind } from "../timeouts";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+suite("timeouts", () => {
+	test("provider entries override the global limits", () => {
+		assert.deepEqual(getRequestTimeouts(PROVIDERS["chatglm-coding"]), { firstTokenMs: 120000, idleMs: 60000, totalMs: 600000 });
+		assert.deepEqual(
+			getRequestTimeouts({ ...PROVIDERS["chatglm-coding"], timeouts: { idleSeconds: 5, totalSeconds: 0 } }),
+			{ firstTokenMs: 120000, idleMs: 5000, totalMs: 0 }
+		);
+	});
+
+	test("activity replaces the first-token timer with the idle timer", async () => {
+		const fired: TimeoutKind[] = [];
+		const watchdog = new RequestWatchdog({ firstTokenMs: 30, idleMs: 60, totalMs: 0 }, (kind) => fired.push(kind));
+		try {
+			watchdog.startAttempt();
+			await wait(10);
+			watchdog.activity();
+			await wait(40);
+			assert.deepEqual(fired, []);
+			await wait(50);
+			assert.deepEqual(fired, ["idle"]);
+			assert.equal(watchdog.fired, "idle");
+
+			// A new attempt starts over
+			watchdog.startAttempt();
+			assert.equal(watchdog.fired, undefined);
+			watchdog.endAttempt();
+			await wait(50);
+			assert.deepEqual(fired, ["idle"]);
+		} finally {
+			watchdog.dispose();
+		}
+	});
+
+	test("the total deadline outlives attempts", async () => {
+		const fired: TimeoutKind[] = [];
+		const watchdog = new RequestWatchdog({ firstTokenMs: 0, idleMs: 0, totalMs: 30 }, (kind) => fired.push(kind));
+		try {
+			await wait(50);
+			watchdog.startAttempt();
+			assert.equal(watchdog.fired, "total");
+			assert.deepEqual(fired, ["total"]);
+		} finally {
+			watchdog.dispose();
+		}
+	});
+});
@@ -0,0 +1,81 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { TokenCalibration, estimateMessageTokens, estimateTextTokens, estimateToolTokens } from "../tokenizer";
+
+suite("tokenizer", () => {
+	test("Chinese text costs close to a token per character", () => {
+		const text = "请帮我修复这个构建错误并解释原因";
+		const est = estimateTextTokens(text);
+		assert.ok(est >= text.length * 0.7, `estimate ${est} for ${text.length} characters`);
+		assert.ok(est > Math.ceil(text.length / 4) * 2);
+	});
+
+	test("English words cost fewer tokens than characters", () => {
+		const text = "Please fix the failing build and explain the cause";
+		const est = estimateTextTokens(text);
+		assert.ok(est >= 9 && est <= 20, `estimate ${est}`);
+	});
+
+	test("code punctuation and newlines are counted", () => {
+		const plain = estimateTextTokens("if a b return c");
+		const code = estimateTextTokens("if (a && b) {\n\treturn c;\n}");
+		assert.ok(code > plain + 5, `code ${code}, plain ${plain}`);
+		assert.equal(estimateTextTokens(""), 0);
+	});
+
+	test("tool calls, tool results and images contribute to message estimates", () => {
+		const textOnly: vscode.LanguageModelChatMessage = {
+			role: vscode.LanguageModelChatMessageRole.Assistant,
+			content: [new vscode.LanguageModelTextPart("Reading the file")],
+			name: undefined,
+		};
+		const withCall: vscode.LanguageModelChatMessage = {
+			...textOnly,
+			content: [...textOnly.content, new vscode.LanguageModelToolCallPart("call_1", "read_file", { path: "src/provider.ts" })],
+		};
+		const toolResult: vscode.LanguageModelChatMessage = {
+			role: vscode.LanguageModelChatMessageRole.User,
+			content: [new vscode.LanguageModelToolResultPart("call_1", [new vscode.LanguageModelTextPart("export class Provider {}")])],
+			name: undefined,
+		};
+		const image: vscode.LanguageModelChatMessage = {
+			role: vscode.LanguageModelChatMessageRole.User,
+			content: [{ mimeType: "image/png", data: new Uint8Array(16) } as unknown as vscode.LanguageModelTextPart],
+			name: undefined,
+		};
+		assert.ok(estimateMessageTokens(withCall) > estimateMessageTokens(textOnly) + 5);
+		assert.ok(estimateMessageTokens(toolResult) > 5);
+		assert.ok(estimateMessageTokens(image) >= 1000);
+
+		const jsonResult: vscode.LanguageModelChatMessage = {
+			...toolResult,
+			content: [
+				new vscode.LanguageModelToolResultPart("call_1", [{ mimeType: "application/json", data: new TextEncoder().encode('{"files":["a.ts","b.ts","c.ts"]}') }]),
+			],
+		};
+		assert.ok(estimateMessageTokens(jsonResult) > estimateMessageTokens(toolResult));
+	});
+
+	test("tool definitions are estimated from their JSON", () => {
+		assert.equal(estimateToolTokens(undefined), 0);
+		const tools = [{ type: "function", function: { name: "read_file", description: "Read a file", parameters: { type: "object" } } }];
+		assert.ok(estimateToolTokens(tools) > 10);
+	});
+
+	test("calibration converges toward reported usage within bounds", () => {
+		const calibration = new TokenCalibration();
+		assert.equal(calibration.apply("glm-4.6", 1000), 1000);
+
+		calibration.observe("glm-4.6", 1000, 1300);
+		assert.equal(calibration.apply("glm-4.6", 1000), 1300);
+		calibration.observe("glm-4.6", 1000, 1300);
+		assert.equal(calibration.apply("glm-4.6", 1000), 1300);
+		assert.equal(calibration.ratio("glm-4.5"), 1);
+
+		// Small prompts are ignored and outliers are clamped
+		calibration.observe("glm-4.5", 50, 500);
+		assert.equal(calibration.ratio("glm-4.5"), 1);
+		calibration.observe("glm-4.5", 1000, 10000);
+		assert.equal(calibration.ratio("glm-4.5"), 2);
+	});
+});
@@ -0,0 +1,270 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as path from "path";
+import { coerceToolInput, normalizeToolSchema, validateToolInput } from "../tool-schema";
+import { FIXTURE_DIR } from "./fixtures";
+
+type Schema = Record<string, unknown>;
+
+/** inputSchema of real MCP tools, keyed by tool name */
+function mcpSchemas(): Map<string, Schema> {
+	const file = JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, "mcp-tool-schemas.json"), "utf8")) as {
+		tools: { name: string; inputSchema: Schema }[];
+	};
+	return new Map(file.tools.map((t) => [t.name, t.inputSchema]));
+}
+
+/** Every keyword used anywhere in a schema, including inside property maps */
+function keywordsOf(value: unknown, out = new Set<string>()): Set<string> {
+	if (value && typeof value === "object") {
+		for (const [k, v] of Object.entries(value)) {
+			out.add(k);
+			keywordsOf(v, out);
+		}
+	}
+	return out;
+}
+
+/** Walk to a nested subschema, e.g. at(schema, "properties", "a", "items") */
+function at(schema: unknown, ...keys: (string | number)[]): Schema {
+	return keys.reduce<unknown>((node, key) => (node as Record<string | number, unknown>)[key], schema) as Schema;
+}
+
+const SCHEMA = {
+	type: "object",
+	properties: {
+		path: { type: "string" },
+		mode: { type: "string", enum: ["read", "write"] },
+		lines: { type: "array", items: { type: "integer" } },
+	},
+	required: ["path"],
+};
+
+suite("tool-schema", () => {
+	test("matching input has no problems", () => {
+		assert.deepEqual(validateToolInput({ path: "a.ts", mode: "read", lines: [1, 2] }, SCHEMA), []);
+	});
+
+	test("reports missing properties, wrong types and enum values with their path", () => {
+		assert.deepEqual(validateToolInput({ mode: "delete", lines: [1, "2"] }, SCHEMA), [
+			'$: missing required property "path"',
+			'$.mode: must be one of "read", "write"',
+			"$.lines[1]: expected integer, got string",
+		]);
+	});
+
+	test("follows $refs, unions and additionalProperties", () => {
+		const schemas = mcpSchemas();
+		const movePage = schemas.get("API-move-page");
+		const pageId = "59833787-2cf9-4fdf-8782-e53db20768a5";
+		assert.deepEqual(validateToolInput({ page_id: pageId, parent: { type: "workspace" } }, movePage), []);
+		assert.deepEqual(validateToolInput({ page_id: pageId, parent: 42 }, movePage), ["$.parent: does not match any of the 2 allowed shapes"]);
+
+		const review = schemas.get("create_pull_request_review");
+		const args = { owner: "o", repo: "r", pull_number: 7, body: "LGTM", event: "APPROVE" };
+		assert.deepEqual(validateToolInput({ ...args, draft: true }, review), ['$: unknown property "draft"']);
+		assert.deepEqual(validateToolInput({ note: null }, { type: "object", properties: { note: { type: ["string", "null"] } } }), []);
+	});
+
+	test("missing or unknown schemas accept anything", () => {
+		assert.deepEqual(validateToolInput({ a: 1 }, undefined), []);
+		assert.deepEqual(validateToolInput({ a: 1 }, { type: "object", properties: { a: { type: "custom" } } }), []);
+	});
+});
+
+suite("tool-schema/normalize", () => {
+	test("real MCP schemas keep their structure without unsupported keywords", () => {
+		for (const [name, input] of mcpSchemas()) {
+			const out = normalizeToolSchema(input);
+			assert.equal(out.type, "object", name);
+			assert.deepEqual(out.required, input.required, name);
+			assert.deepEqual(Object.keys(out.properties as Schema), Object.keys(input.properties as Schema), name);
+			for (const keyword of ["$ref", "$defs", "$schema", "oneOf", "allOf", "const"]) {
+				assert.ok(!keywordsOf(out).has(keyword), `${name} still has ${keyword}`);
+			}
+			assert.ok(!JSON.stringify(out).includes('"null"'), `${name} still allows null`);
+		}
+	});
+
+	test("unions of objects are kept as anyOf", () => {
+		const out = normalizeToolSchema(mcpSchemas().get("create_pull_request_review"));
+		const branches = at(out, "properties", "comments", "items", "anyOf") as unknown as Schema[];
+		assert.deepEqual(
+			branches.map((b) => b.required),
+			[
+				["path", "position", "body"],
+				["path", "line", "body"],
+			]
+		);
+	});
+
+	test("$refs are inlined and nested unions flattened", () => {
+		const schemas = mcpSchemas();
+		const parent = at(normalizeToolSchema(schemas.get("API-move-page")), "properties", "parent");
+		const branches = parent.anyOf as Schema[];
+		assert.deepEqual(
+			branches.map((b) => (b.type === "object" ? at(b, "properties", "type", "enum") : b.type)),
+			[["page_id"], ["database_id"], ["workspace"], "string"]
+		);
+
+		const children = at(normalizeToolSchema(schemas.get("API-patch-block-children")), "properties", "children", "items");
+		const paragraph = (children.anyOf as Schema[])[0];
+		const richText = at(paragraph, "properties", "paragraph", "properties", "rich_text", "items");
+		assert.deepEqual(richText.required, ["text"]);
+		assert.equal(at(richText, "properties", "text", "properties", "link", "type"), "object");
+	});
+
+	test("nullable unions, type lists and const collapse to one type", () => {
+		const out = normalizeToolSchema({
+			type: "object",
+			properties: {
+				due: { anyOf: [{ type: "string", format: "date" }, { type: "null" }], default: null, description: "Due date" },
+				note: { type: ["string", "null"] },
+				kind: { const: "task" },
+				level: { anyOf: [{ const: "low" }, { const: "high" }], description: "Priority" },
+			},
+		});
+		assert.deepEqual(out.properties, {
+			due: { type: "string", format: "date", default: null, description: "Due date" },
+			note: { type: "string" },
+			kind: { type: "string", enum: ["task"] },
+			level: { type: "string", enum: ["low", "high"], description: "Priority" },
+		});
+	});
+
+	test("unconstrained schemas are left without a type", () => {
+		const out = normalizeToolSchema({
+			type: "object",
+			properties: { value: {}, meta: { description: "Anything" }, tags: { items: {} }, options: { required: ["a"] } },
+		});
+		assert.deepEqual(out.properties, {
+			value: {},
+			meta: { description: "Anything" },
+			tags: { type: "array", items: {} },
+			options: { type: "object", properties: {}, required: ["a"] },
+		});
+	});
+
+	test("allOf is merged", () => {
+		const out = normalizeToolSchema({
+			$defs: { Base: { type: "object", properties: { id: { type: "integer" } }, required: ["id"] } },
+			allOf: [{ $ref: "#/$defs/Base" }, { properties: { name: { type: "string" } }, required: ["name"] }],
+		});
+		assert.deepEqual(out, {
+			type: "object",
+			properties: { id: { type: "integer" }, name: { type: "string" } },
+			required: ["id", "name"],
+		});
+	});
+
+	test("recursive references stop at the first repeat", () => {
+		const out = normalizeToolSchema({
+			type: "object",
+			properties: { root: { $ref: "#/$defs/Node" } },
+			$defs: { Node: { type: "object", properties: { name: { type: "string" }, children: { type: "array", items: { $ref: "#/$defs/Node" } } } } },
+		});
+		assert.deepEqual(at(out, "properties", "root", "properties", "children", "items"), { type: "object", properties: {} });
+	});
+
+	test("a $ref used by two branches is inlined in both", () => {
+		const out = normalizeToolSchema({
+			type: "object",
+			properties: {
+				target: { anyOf: [{ $ref: "#/$defs/Path" }, { type: "array", items: { $ref: "#/$defs/Path" } }] },
+			},
+			$defs: { Path: { type: "string", description: "File path" } },
+		});
+		assert.deepEqual(at(out, "properties", "target", "anyOf"), [
+			{ type: "string", description: "File path" },
+			{ type: "array", items: { type: "string", description: "File path" } },
+		]);
+	});
+
+	test("depth and size limits collapse the rest to bare types", () => {
+		const nested = { type: "object", properties: { a: { type: "object", description: "A", properties: { b: { type: "array", items: { type: "string" } } } } } };
+		assert.deepEqual(normalizeToolSchema(nested, { maxDepth: 0, maxNodes: 100 }), {
+			type: "object",
+			properties: { a: { type: "object", description: "A", properties: {} } },
+		});
+		const wide = { type: "object", properties: Object.fromEntries(Array.from({ length: 5 }, (_, i) => [`p${i}`, { type: "array", items: { type: "integer" } }])) };
+		const out = normalizeToolSchema(wide, { maxDepth: 10, maxNodes: 4 });
+		assert.deepEqual(at(out, "properties", "p0"), { type: "array", items: { type: "integer" } });
+		assert.deepEqual(at(out, "properties", "p4"), { type: "array", items: { type: "string" } });
+	});
+
+	test("a union at the root becomes one object", () => {
+		const out = normalizeToolSchema({
+			anyOf: [
+				{ type: "object", properties: { path: { type: "string" }, line: { type: "number" } }, required: ["path", "line"] },
+				{ type: "object", properties: { path: { type: "string" }, symbol: { type: "string" } }, required: ["path", "symbol"] },
+			],
+		});
+		assert.deepEqual(out, {
+			type: "object",
+			properties: { path: { type: "string" }, line: { type: "number" }, symbol: { type: "string" } },
+			required: ["path"],
+		});
+	});
+
+	test("property types come from the schema, not the property name", () => {
+		const out = normalizeToolSchema({ type: "object", properties: { limit: { type: "number" }, user_id: { type: "string" } } });
+		assert.deepEqual(out.properties, { limit: { type: "number" }, user_id: { type: "string" } });
+	});
+});
+
+suite("tool-schema/coerce", () => {
+	const SEARCH = {
+		type: "object",
+		properties: {
+			query: { type: "string" },
+			limit: { type: "integer" },
+			ratio: { type: "number" },
+			caseSensitive: { type: "boolean" },
+			paths: { type: "array", items: { type: "string" } },
+			options: { type: "object", properties: { depth: { type: "integer" } } },
+		},
+		additionalProperties: false,
+	};
+
+	test("stringified values are parsed where the schema asks for another type", () => {
+		const { value, changes } = coerceToolInput(
+			{ query: "42", limit: "5", ratio: "0.5", caseSensitive: "False", paths: '["a.ts", "b.ts"]', options: '{"depth": "2"}' },
+			SEARCH
+		);
+		assert.deepEqual(value, { query: "42", limit: 5, ratio: 0.5, caseSensitive: false, paths: ["a.ts", "b.ts"], options: { depth: 2 } });
+		assert.equal(changes.length, 6);
+		assert.deepEqual(validateToolInput(value, SEARCH), []);
+	});
+
+	test("unknown properties are removed only when additionalProperties is false", () => {
+		assert.deepEqual(coerceToolInput({ query: "x", extra: 1 }, SEARCH), {
+			value: { query: "x" },
+			changes: ["$.extra: removed (additionalProperties: false)"],
+		});
+		assert.deepEqual(coerceToolInput({ extra: 1 }, { type: "object", properties: {} }).value, { extra: 1 });
+	});
+
+	test("values that do not hold the expected type are left for validation to report", () => {
+		const { value, changes } = coerceToolInput({ limit: "five", ratio: "1.5.2" }, SEARCH);
+		assert.deepEqual(value, { limit: "five", ratio: "1.5.2" });
+		assert.deepEqual(changes, []);
+		assert.deepEqual(validateToolInput(value, SEARCH), ["$.limit: expected integer, got string", "$.ratio: expected number, got string"]);
+	});
+
+	test("coercion follows $refs and picks the union branch that fits", () => {
+		const review = mcpSchemas().get("create_pull_request_review");
+		const { value } = coerceToolInput(
+			{ owner: "o", repo: "r", pull_number: "7", body: "b", event: "COMMENT", comments: [{ path: "a.ts", line: "12", body: "nit" }] },
+			review
+		);
+		assert.deepEqual(value.comments, [{ path: "a.ts", line: 12, body: "nit" }]);
+		assert.equal(value.pull_number, 7);
+
+		const withRef = {
+			type: "object",
+			properties: { range: { $ref: "#/$defs/Range" } },
+			$defs: { Range: { type: "object", properties: { start: { type: "integer" } } } },
+		};
+		assert.deepEqual(coerceToolInput({ range: { start: "3" } }, withRef).value, { range: { start: 3 } });
+	});
+});
@@ -0,0 +1,96 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { mergeModelDefaults } from "../request-params";
+import { selectTools, type ToolSelectionLimits, type ToolSelectionOptions } from "../tool-selection";
+
+const User = vscode.LanguageModelChatMessageRole.User;
+const Assistant = vscode.LanguageModelChatMessageRole.Assistant;
+
+function tool(name: string, description: string, properties: string[] = []): vscode.LanguageModelChatTool {
+	return {
+		name,
+		description,
+		inputSchema: { type: "object", properties: Object.fromEntries(properties.map((p) => [p, { type: "string" }])) },
+	};
+}
+
+function text(role: vscode.LanguageModelChatMessageRole, value: string): vscode.LanguageModelChatRequestMessage {
+	return { role, content: [new vscode.LanguageModelTextPart(value)], name: undefined };
+}
+
+function called(name: string): vscode.LanguageModelChatRequestMessage[] {
+	return [
+		{ role: Assistant, content: [new vscode.LanguageModelToolCallPart(`call_${name}`, name, {})], name: undefined },
+		{ role: User, content: [new vscode.LanguageModelToolResultPart(`call_${name}`, [new vscode.LanguageModelTextPart("ok")])], name: undefined },
+	];
+}
+
+const TOOLS = [
+	tool("read_file", "Read the contents of a file in the workspace", ["filePath"]),
+	tool("run_in_terminal", "Run a shell command in a terminal"),
+	tool("mcp_github_create_issue", "Create a new issue in a GitHub repository", ["owner", "repo", "title"]),
+	tool("mcp_github_list_pull_requests", "List pull requests in a GitHub repository", ["owner", "repo"]),
+	tool("mcp_notion_search", "Search pages and databases in Notion", ["query"]),
+	tool("fetch_webpage", "Fetch the main content of a web page"),
+];
+
+/** One token per tool keeps budgets easy to reason about */
+function limits(maxTools: number, maxTokens = 1000): ToolSelectionOptions {
+	return { enabled: true, maxTools, maxTokens, countTokens: () => 1 };
+}
+
+function names(tools: readonly vscode.LanguageModelChatTool[]): string[] {
+	return tools.map((t) => t.name);
+}
+
+suite("tool-selection", () => {
+	test("requests within the limits keep every tool", () => {
+		const result = selectTools(TOOLS, [text(User, "hello")], limits(10));
+		assert.deepEqual(names(result.tools), names(TOOLS));
+		assert.deepEqual(result.dropped, []);
+	});
+
+	test("the most relevant tools are kept in their original order", () => {
+		const result = selectTools(TOOLS, [text(User, "Open an issue on GitHub about the crash")], limits(2));
+		assert.deepEqual(names(result.tools), ["mcp_github_create_issue", "mcp_github_list_pull_requests"]);
+		assert.equal(result.dropped.length, 4);
+	});
+
+	test("Chinese requests match Chinese tool descriptions", () => {
+		const tools = [tool("search_code", "在代码库中搜索符号"), tool("translate", "翻译一段文本"), tool("weather", "查询天气")];
+		const result = selectTools(tools, [text(User, "帮我翻译这段话")], limits(1));
+		assert.deepEqual(names(result.tools), ["translate"]);
+	});
+
+	test("tools called earlier in the conversation are always kept", () => {
+		const messages = [text(User, "read the config"), ...called("read_file"), text(User, "now search notion for the design doc")];
+		const result = selectTools(TOOLS, messages, limits(2));
+		assert.deepEqual(names(result.tools), ["read_file", "mcp_notion_search"]);
+		assert.deepEqual(result.kept, ["read_file"]);
+	});
+
+	test("tools from the server of a recently used tool rank higher", () => {
+		const messages = [text(User, "what changed?"), ...called("mcp_github_list_pull_requests"), text(User, "and then?")];
+		const result = selectTools(TOOLS, messages, limits(2));
+		assert.deepEqual(names(result.tools), ["mcp_github_create_issue", "mcp_github_list_pull_requests"]);
+	});
+
+	test("the token budget limits the selection", () => {
+		const options: ToolSelectionOptions = { enabled: true, maxTools: 128, maxTokens: 250, countTokens: (t) => (t.name === "read_file" ? 200 : 100) };
+		const result = selectTools(TOOLS, [text(User, "read the file, then fetch the web page")], options);
+		assert.deepEqual(names(result.tools), ["read_file"]);
+		assert.equal(result.tokensBefore, 700);
+		assert.equal(result.tokensAfter, 200);
+	});
+
+	test("selection can be turned off", () => {
+		const result = selectTools(TOOLS, [text(User, "issue")], { ...limits(1), enabled: false });
+		assert.equal(result.tools.length, TOOLS.length);
+	});
+
+	test("per-model limits merge from general to specific patterns", () => {
+		const perModel: Record<string, ToolSelectionLimits> = { "*": { maxTokens: 8000 }, "glm-4.6": { maxTools: 20 }, "glm-4*": { maxTools: 40 } };
+		assert.deepEqual(mergeModelDefaults(perModel, "glm-4.6"), { maxTokens: 8000, maxTools: 20 });
+		assert.deepEqual(mergeModelDefaults(perModel, "glm-4.5"), { maxTokens: 8000, maxTools: 40 });
+	});
+});
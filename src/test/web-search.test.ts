@@ -0,0 +1,57 @@
+import * as assert from "assert";
+import { PROVIDERS, type ProviderConfig } from "../config";
+import { buildWebSearchTool, formatCitations, parseWebSearchResults, resolveWebSearchOptions, supportsWebSearch } from "../web-search";
+
+suite("web-search", () => {
+	test("web search is off unless a layer enables it", () => {
+		assert.equal(resolveWebSearchOptions([]), undefined);
+		assert.equal(resolveWebSearchOptions([{ enabled: true, count: 10 }, { enabled: false }]), undefined);
+		assert.deepEqual(resolveWebSearchOptions([{ enabled: true }]), { searchEngine: "search_std", count: 5, recency: "noLimit" });
+	});
+
+	test("later layers win and invalid values are ignored", () => {
+		const options = resolveWebSearchOptions([
+			{ enabled: false, searchEngine: "search_pro", count: 10 },
+			undefined,
+			{ enabled: true, recency: "oneWeek", count: 0 },
+			{ searchEngine: "bing", recency: "yesterday" },
+		]);
+		assert.deepEqual(options, { searchEngine: "search_pro", count: 10, recency: "oneWeek" });
+	});
+
+	test("the tool asks for search results", () => {
+		assert.deepEqual(buildWebSearchTool({ searchEngine: "search_pro", count: 3, recency: "oneMonth" }), {
+			type: "web_search",
+			web_search: { enable: true, search_engine: "search_pro", search_result: true, count: 3, search_recency_filter: "oneMonth" },
+		});
+	});
+
+	test("citations follow the reference numbers of the answer", () => {
+		const cited = parseWebSearchResults([
+			{ title: "Third", link: "https://example.com/3", refer: "ref_3", media: "Example" },
+			{ title: "First", link: "https://example.com/1", refer: "ref_1" },
+		]);
+		assert.equal(formatCitations(cited), "\n\n**Sources**\n\n- [3] [Third](https://example.com/3) — Example\n- [1] [First](https://example.com/1)\n");
+	});
+
+	test("results without markers are numbered in order", () => {
+		const results = parseWebSearchResults([
+			{ title: "Second [draft]", link: "https://example.com/a_(b)", refer: "ref_2", publish_date: "2025-09-30" },
+			{ link: "https://example.com/untitled" },
+			{ title: "No link" },
+			"junk",
+		]);
+		assert.equal(results.length, 2);
+		assert.equal(
+			formatCitations(results),
+			"\n\n**Sources**\n\n- [1] [Second draft](https://example.com/a_%28b%29) — 2025-09-30\n- [2] [https://example.com/untitled](https://example.com/untitled)\n"
+		);
+	});
+
+	test("only Zhipu endpoints and flagged models of custom providers get the tool", () => {
+		const custom: ProviderConfig = { ...PROVIDERS["chatglm-general"], id: "local", baseUrl: "http://localhost:8000/v1", isCustom: true };
+		assert.ok(supportsWebSearch(PROVIDERS["chatglm-general"], "glm-4.6", []));
+		assert.ok(!supportsWebSearch(custom, "glm-4.6", []));
+		assert.ok(supportsWebSearch(custom, "glm-4.6", [{ match: "glm-*", webSearch: true }]));
+	});
+});
@@ -0,0 +1,144 @@
+/**
+ * Request timeouts for ChatGLM Router
+ * A chat request fails when the server sends nothing for too long before the first chunk,
+ * stalls between chunks, or the whole request exceeds its deadline. The HTTP connection
+ * is aborted so a stalled stream never leaves the chat waiting forever.
+ */
+
+import * as vscode from "vscode";
+import type { ProviderConfig, TimeoutSettings } from "./config";
+
+/**
+ * Timeout limits in milliseconds; 0 disables a limit
+ */
+export interface RequestTimeouts {
+	/** From sending the request until the first response chunk */
+	firstTokenMs: number;
+	/** Longest gap between two response chunks */
+	idleMs: number;
+	/** Whole request including retries */
+	totalMs: number;
+}
+
+/**
+ * Which limit was hit
+ */
+export type TimeoutKind = "firstToken" | "idle" | "total";
+
+/**
+ * A chat request ran out of time
+ */
+export class RequestTimeoutError extends Error {
+	constructor(
+		readonly kind: TimeoutKind,
+		readonly timeoutMs: number,
+		providerName: string
+	) {
+		const seconds = timeoutMs / 1000;
+		const reason =
+			kind === "firstToken"
+				? `sent no response within ${seconds}s`
+				: kind === "idle"
+					? `stopped streaming for ${seconds}s`
+					: `did not finish within the ${seconds}s request limit`;
+		super(`${providerName} ${reason}. Try again, or raise chatglmRouter.timeouts if the model needs more time.`);
+		this.name = "RequestTimeoutError";
+	}
+}
+
+/**
+ * Read the timeouts for a provider
+ * Precedence: the provider's own entry (custom providers), `timeouts.perProvider[id]`, then the global values.
+ * @param provider Provider configuration
+ */
+export function getRequestTimeouts(provider: ProviderConfig): RequestTimeouts {
+	const config = vscode.workspace.getConfiguration("chatglmRouter.timeouts");
+	const perProvider = config.get<Record<string, TimeoutSettings>>("perProvider", {})?.[provider.id] ?? {};
+	const read = (key: keyof TimeoutSettings, fallback: number): number => {
+		const value = provider.timeouts?.[key] ?? perProvider[key] ?? config.get<number>(key, fallback);
+		return typeof value === "number" ? Math.max(0, value) * 1000 : fallback * 1000;
+	};
+	return {
+		firstTokenMs: read("firstTokenSeconds", 120),
+		idleMs: read("idleSeconds", 60),
+		totalMs: read("totalSeconds", 600),
+	};
+}
+
+/**
+ * Timers guarding one chat request
+ * The total deadline runs from construction; the first-token and idle timers are re-armed
+ * for every attempt so a retried request gets a fresh first-token window.
+ */
+export class RequestWatchdog {
+	private _attemptTimer: ReturnType<typeof setTimeout> | undefined;
+	private readonly _totalTimer: ReturnType<typeof setTimeout> | undefined;
+	private _fired: TimeoutKind | undefined;
+
+	/**
+	 * @param timeouts Limits for this request
+	 * @param onTimeout Called once when a limit is hit; should abort the connection
+	 */
+	constructor(
+		readonly timeouts: RequestTimeouts,
+		private readonly onTimeout: (kind: TimeoutKind) => void
+	) {
+		if (timeouts.totalMs > 0) {
+			this._totalTimer = setTimeout(() => this.fire("total"), timeouts.totalMs);
+		}
+	}
+
+	/** The limit that was hit, if any */
+	get fired(): TimeoutKind | undefined {
+		return this._fired;
+	}
+
+	/** Limit in milliseconds of the given kind */
+	limitOf(kind: TimeoutKind): number {
+		return kind === "firstToken" ? this.timeouts.firstTokenMs : kind === "idle" ? this.timeouts.idleMs : this.timeouts.totalMs;
+	}
+
+	/**
+	 * Start the first-token timer for a new attempt; an attempt timeout from a previous attempt is cleared
+	 */
+	startAttempt(): void {
+		if (this._fired !== "total") {
+			this._fired = undefined;
+		}
+		this.arm("firstToken", this.timeouts.firstTokenMs);
+	}
+
+	/**
+	 * Record that response data arrived, restarting the idle timer
+	 */
+	activity(): void {
+		this.arm("idle", this.timeouts.idleMs);
+	}
+
+	/**
+	 * Stop the attempt timers once the response has been read
+	 */
+	endAttempt(): void {
+		clearTimeout(this._attemptTimer);
+		this._attemptTimer = undefined;
+	}
+
+	dispose(): void {
+		this.endAttempt();
+		clearTimeout(this._totalTimer);
+	}
+
+	private arm(kind: TimeoutKind, ms: number): void {
+		clearTimeout(this._attemptTimer);
+		this._attemptTimer = ms > 0 && !this._fired ? setTimeout(() => this.fire(kind), ms) : undefined;
+	}
+
+	private fire(kind: TimeoutKind): void {
+		if (this._fired) {
+			return;
+		}
+		this._fired = kind;
+		this.endAttempt();
+		this.onTimeout(kind);
+	}
+}
@@ -0,0 +1,183 @@
+/**
+ * Token estimation for ChatGLM Router
+ * GLM models use a BPE vocabulary where a Chinese character costs close to one token while
+ * English averages several characters per token, so a single length/4 ratio is far off for
+ * mixed content. Estimates here count CJK, words, punctuation and whitespace separately and can
+ * be calibrated against the prompt_tokens the server reports for each model.
+ */
+
+import * as vscode from "vscode";
+import { isImageDataPart, serializeToolResultPart } from "./utils";
+
+/** Tokens per CJK character (Han, kana, hangul) */
+const CJK_TOKENS_PER_CHAR = 0.8;
+/** Characters per token inside a run of letters/digits */
+const WORD_CHARS_PER_TOKEN = 5;
+/** Framing tokens per chat message (role and separators) */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+/** Framing tokens per tool call or tool result */
+const TOOL_PART_OVERHEAD_TOKENS = 3;
+/** Flat estimate for an image attachment */
+const IMAGE_TOKENS = 1024;
+
+/** Calibration ratios are kept within this range so one odd response cannot skew budgeting */
+const MIN_CALIBRATION_RATIO = 0.5;
+const MAX_CALIBRATION_RATIO = 2;
+/** Weight of a new observation in the moving average */
+const CALIBRATION_SMOOTHING = 0.3;
+/** Prompts smaller than this are too dominated by framing to calibrate from */
+const MIN_CALIBRATION_SAMPLE = 200;
+
+const SEGMENT_REGEX =
+	/([\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]+)|([\p{L}\p{N}_]+)|(\s+)|([\s\S])/gu;
+
+/**
+ * Estimate the token count of plain text
+ * @param text Text to estimate
+ */
+export function estimateTextTokens(text: string): number {
+	if (!text) {
+		return 0;
+	}
+	let cjkChars = 0;
+	let tokens = 0;
+	for (const match of text.matchAll(SEGMENT_REGEX)) {
+		const [, cjk, word, space] = match;
+		if (cjk) {
+			cjkChars += [...cjk].length;
+		} else if (word) {
+			tokens += Math.ceil(word.length / WORD_CHARS_PER_TOKEN);
+		} else if (space) {
+			// A single space merges into the next word; newlines and indentation do not
+			const newlines = space.split("\n").length - 1;
+			tokens += newlines > 0 ? newlines : Math.floor(space.length / 4);
+		} else {
+			// Punctuation, operators and symbols
+			tokens += 1;
+		}
+	}
+	return tokens + Math.ceil(cjkChars * CJK_TOKENS_PER_CHAR);
+}
+
+/**
+ * Estimate tokens for a value serialized as JSON (tool arguments, schemas)
+ * @param value Value to serialize
+ */
+export function estimateJsonTokens(value: unknown): number {
+	try {
+		return estimateTextTokens(JSON.stringify(value) ?? "");
+	} catch {
+		return 0;
+	}
+}
+
+/**
+ * Estimate tokens of a single message part
+ * @param part Message content part
+ */
+function estimatePartTokens(part: unknown): number {
+	if (part instanceof vscode.LanguageModelTextPart) {
+		return estimateTextTokens(part.value);
+	}
+	if (part instanceof vscode.LanguageModelToolCallPart) {
+		return TOOL_PART_OVERHEAD_TOKENS + estimateTextTokens(part.name) + estimateJsonTokens(part.input);
+	}
+	if (part instanceof vscode.LanguageModelToolResultPart) {
+		let total = TOOL_PART_OVERHEAD_TOKENS;
+		for (const item of part.content) {
+			total += isImageDataPart(item) ? IMAGE_TOKENS : estimateTextTokens(serializeToolResultPart(item));
+		}
+		return total;
+	}
+	if (isImageDataPart(part)) {
+		return IMAGE_TOKENS;
+	}
+	return 0;
+}
+
+/**
+ * Estimate tokens of a chat message, including tool calls, tool results and images
+ * @param message Chat message
+ */
+export function estimateMessageTokens(message: vscode.LanguageModelChatMessage | vscode.LanguageModelChatRequestMessage): number {
+	let total = MESSAGE_OVERHEAD_TOKENS;
+	for (const part of message.content) {
+		total += estimatePartTokens(part);
+	}
+	return total;
+}
+
+/**
+ * Estimate tokens of a conversation
+ * @param messages Chat messages
+ */
+export function estimateMessagesTokens(messages: readonly (vscode.LanguageModelChatMessage | vscode.LanguageModelChatRequestMessage)[]): number {
+	let total = 0;
+	for (const message of messages) {
+		total += estimateMessageTokens(message);
+	}
+	return total;
+}
+
+/**
+ * Estimate tokens of the tool definitions sent with a request
+ * @param tools OpenAI function tool definitions
+ */
+export function estimateToolTokens(tools: readonly unknown[] | undefined): number {
+	if (!tools || tools.length === 0) {
+		return 0;
+	}
+	return estimateJsonTokens(tools);
+}
+
+/**
+ * Whether estimates should be scaled by server-reported usage
+ */
+export function isTokenCalibrationEnabled(): boolean {
+	const config = vscode.workspace.getConfiguration("chatglmRouter.tokenEstimation");
+	return config.get<boolean>("calibrate", true);
+}
+
+/**
+ * Per-model correction factors learned from prompt_tokens reported by the server (in memory only)
+ */
+export class TokenCalibration {
+	private readonly _ratios = new Map<string, number>();
+
+	/**
+	 * Record a request's estimated vs reported prompt size
+	 * @param modelId Model identifier
+	 * @param estimated Local estimate for the prompt (messages and tools)
+	 * @param actual prompt_tokens reported by the server
+	 */
+	observe(modelId: string, estimated: number, actual: number): void {
+		if (estimated < MIN_CALIBRATION_SAMPLE || !(actual > 0)) {
+			return;
+		}
+		const sample = clamp(actual / estimated);
+		const previous = this._ratios.get(modelId);
+		const next = previous === undefined ? sample : previous + (sample - previous) * CALIBRATION_SMOOTHING;
+		this._ratios.set(modelId, clamp(next));
+	}
+
+	/**
+	 * Current correction factor for a model (1 until something was observed)
+	 * @param modelId Model identifier
+	 */
+	ratio(modelId: string): number {
+		return this._ratios.get(modelId) ?? 1;
+	}
+
+	/**
+	 * Scale an estimate by the model's correction factor
+	 * @param modelId Model identifier
+	 * @param estimated Uncalibrated estimate
+	 */
+	apply(modelId: string, estimated: number): number {
+		return Math.ceil(estimated * this.ratio(modelId));
+	}
+}
+
+function clamp(ratio: number): number {
+	return Math.min(MAX_CALIBRATION_RATIO, Math.max(MIN_CALIBRATION_RATIO, ratio));
+}
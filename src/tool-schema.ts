@@ -0,0 +1,555 @@
+/**
+ * JSON Schema handling for tools
+ * - normalizeToolSchema rewrites a tool's inputSchema into the subset GLM function calling accepts
+ * - coerceToolInput and validateToolInput fit and check model-produced arguments against the original schema;
+ *   unknown keywords are ignored, so a schema this module does not understand never rejects input
+ */
+
+/**
+ * Limits applied while normalizing; deeper or larger parts are collapsed to their bare type
+ */
+export interface SchemaLimits {
+	/** Deepest nesting of subschemas kept */
+	maxDepth: number;
+	/** Most subschemas kept in one tool schema */
+	maxNodes: number;
+}
+
+export const DEFAULT_SCHEMA_LIMITS: SchemaLimits = { maxDepth: 10, maxNodes: 1000 };
+
+/** Keywords passed through unchanged */
+const KEPT_KEYWORDS = new Set([
+	"description",
+	"default",
+	"minLength",
+	"maxLength",
+	"minimum",
+	"maximum",
+	"minItems",
+	"maxItems",
+	"pattern",
+	"format",
+]);
+
+type Schema = Record<string, unknown>;
+
+interface NormalizeContext {
+	root: Schema;
+	limits: SchemaLimits;
+	nodes: number;
+	/** $refs being inlined on the current path, to stop recursive definitions */
+	refs: string[];
+}
+
+/**
+ * Rewrite a tool input schema for GLM
+ * - inlines local `$ref`s (`#/$defs/...`, `#/definitions/...`); recursive references become a bare object
+ * - merges `allOf`, turns `const` into a one-value `enum` and drops `null` from unions and type lists
+ * - flattens `anyOf`/`oneOf` with a single remaining branch or only constant branches, and keeps
+ *   other unions as `anyOf`
+ * - infers a missing `type` from the other keywords, leaving unconstrained schemas (`{}`) untyped,
+ *   keeps the first `items` of a tuple and drops unsupported keywords
+ * @param input The tool's inputSchema
+ * @param limits Depth and size limits
+ */
+export function normalizeToolSchema(input: unknown, limits: SchemaLimits = DEFAULT_SCHEMA_LIMITS): Schema {
+	if (!isSchema(input)) {
+		return { type: "object", properties: {} };
+	}
+	const schema = normalize(input, { root: input, limits, nodes: 0, refs: [] }, 0);
+	if (schema.type === "object") {
+		return schema;
+	}
+	// Function parameters must be a single object: merge a union of objects, drop anything else
+	const branches = Array.isArray(schema.anyOf) ? (schema.anyOf as Schema[]) : [];
+	if (branches.length > 0 && branches.every((b) => b.type === "object")) {
+		return mergeObjectBranches(branches, schema.description);
+	}
+	return { type: "object", properties: {} };
+}
+
+/**
+ * One object accepting the properties of every branch; only properties required by all branches stay required
+ */
+function mergeObjectBranches(branches: Schema[], description: unknown): Schema {
+	const properties: Schema = {};
+	for (const branch of branches) {
+		for (const [k, v] of Object.entries(branch.properties as Schema)) {
+			if (!(k in properties)) {
+				properties[k] = v;
+			}
+		}
+	}
+	const required = branches
+		.map((b) => (Array.isArray(b.required) ? (b.required as string[]) : []))
+		.reduce((acc, r) => acc.filter((k) => r.includes(k)));
+	return {
+		type: "object",
+		...(typeof description === "string" ? { description } : {}),
+		properties,
+		...(required.length > 0 ? { required } : {}),
+	};
+}
+
+function normalize(input: Schema, ctx: NormalizeContext, depth: number): Schema {
+	const refCount = ctx.refs.length;
+	try {
+		const schema = resolve(input, ctx);
+		ctx.nodes++;
+		if (schema === undefined || depth > ctx.limits.maxDepth || ctx.nodes > ctx.limits.maxNodes) {
+			// A recursive reference collapses to the type of its target
+			return collapse(schema ?? { ...lookupRef(ctx.root, String(input.$ref)), ...omit(input, "$ref") });
+		}
+
+		const union = (schema.anyOf ?? schema.oneOf) as unknown;
+		if (Array.isArray(union) && union.length > 0) {
+			return normalizeUnion(union.filter(isSchema), omit(schema, "anyOf", "oneOf"), ctx, depth);
+		}
+
+		const out: Schema = {};
+		for (const [k, v] of Object.entries(schema)) {
+			if (KEPT_KEYWORDS.has(k)) {
+				out[k] = v;
+			}
+		}
+		if ("const" in schema) {
+			out.enum = [schema.const];
+		} else if (Array.isArray(schema.enum)) {
+			out.enum = schema.enum;
+		}
+
+		const types = (Array.isArray(schema.type) ? schema.type : [schema.type]).filter(
+			(t): t is string => typeof t === "string" && t !== "null"
+		);
+		if (types.length > 1) {
+			return normalizeUnion(
+				types.map((t) => ({ ...schema, type: t })),
+				omit(out, "enum"),
+				ctx,
+				depth
+			);
+		}
+		const type = types[0] ?? inferType(schema);
+		if (type) {
+			out.type = type;
+		}
+
+		if (type === "object") {
+			const props = isSchema(schema.properties) ? schema.properties : {};
+			const newProps: Schema = {};
+			for (const [k, v] of Object.entries(props)) {
+				newProps[k] = normalize(isSchema(v) ? v : {}, ctx, depth + 1);
+			}
+			out.properties = newProps;
+			if (Array.isArray(schema.required)) {
+				out.required = schema.required.filter((r) => typeof r === "string");
+			}
+			if (typeof schema.additionalProperties === "boolean") {
+				out.additionalProperties = schema.additionalProperties;
+			} else if (isSchema(schema.additionalProperties)) {
+				out.additionalProperties = normalize(schema.additionalProperties, ctx, depth + 1);
+			}
+		} else if (type === "array") {
+			const items = Array.isArray(schema.items) ? schema.items[0] : schema.items;
+			out.items = isSchema(items) ? normalize(items, ctx, depth + 1) : { type: "string" };
+		}
+		return out;
+	} finally {
+		ctx.refs.length = refCount;
+	}
+}
+
+/**
+ * Normalize `anyOf`/`oneOf` branches
+ * @param branches Raw branches
+ * @param shared Keywords next to the union (description, default, ...), which win over the branches'
+ */
+function normalizeUnion(branches: Schema[], shared: Schema, ctx: NormalizeContext, depth: number): Schema {
+	// Resolve each branch on its own so a $ref used by two branches is not mistaken for recursion
+	const resolved = branches
+		.map((b) => {
+			const mark = ctx.refs.length;
+			const schema = resolve(b, ctx);
+			const refs = ctx.refs.splice(mark);
+			return { schema: schema ?? collapse(b), refs };
+		})
+		.filter(({ schema }) => schema.type !== "null" && !("const" in schema && schema.const === null));
+	const normalizeBranch = (branch: { schema: Schema; refs: string[] }, extra: Schema, nextDepth: number): Schema => {
+		const mark = ctx.refs.length;
+		ctx.refs.push(...branch.refs);
+		try {
+			return normalize({ ...branch.schema, ...extra }, ctx, nextDepth);
+		} finally {
+			ctx.refs.length = mark;
+		}
+	};
+
+	if (resolved.length === 0) {
+		return normalize({ ...shared, type: "string" }, ctx, depth);
+	}
+	if (resolved.length === 1) {
+		return normalizeBranch(resolved[0], shared, depth);
+	}
+	// Only constants of one type, e.g. a Literal["a", "b"] union: a single enum
+	const constants = resolved.map(({ schema }) =>
+		"const" in schema ? [schema.const] : Array.isArray(schema.enum) && !schema.properties ? schema.enum : undefined
+	);
+	if (constants.every((c) => c !== undefined)) {
+		const values = constants.flat();
+		if (new Set(values.map((v) => typeof v)).size === 1) {
+			return normalize({ ...shared, enum: values }, ctx, depth);
+		}
+	}
+	const out: Schema = {};
+	for (const [k, v] of Object.entries(shared)) {
+		if (KEPT_KEYWORDS.has(k)) {
+			out[k] = v;
+		}
+	}
+	// Nested unions are flattened into one list of branches
+	out.anyOf = resolved
+		.map((branch) => normalizeBranch(branch, {}, depth + 1))
+		.flatMap((branch) => (Array.isArray(branch.anyOf) ? (branch.anyOf as Schema[]) : [branch]));
+	return out;
+}
+
+/**
+ * Inline `$ref` and merge `allOf` at the top of a schema
+ * @returns The resolved schema, or undefined for a recursive reference
+ */
+function resolve(input: Schema, ctx: NormalizeContext): Schema | undefined {
+	let schema = input;
+	while (typeof schema.$ref === "string") {
+		const ref = schema.$ref;
+		if (ctx.refs.includes(ref)) {
+			return undefined;
+		}
+		ctx.refs.push(ref);
+		schema = { ...lookupRef(ctx.root, ref), ...omit(schema, "$ref") };
+	}
+	if (Array.isArray(schema.allOf)) {
+		const { allOf, ...rest } = schema;
+		let merged: Schema = {};
+		for (const part of allOf.filter(isSchema)) {
+			const branch = resolve(part, ctx);
+			if (branch) {
+				merged = mergeSchemas(merged, branch);
+			}
+		}
+		schema = mergeSchemas(merged, rest);
+	}
+	return schema;
+}
+
+/** Merge two schemas: properties and required are combined, other keywords from `b` win */
+function mergeSchemas(a: Schema, b: Schema): Schema {
+	const out: Schema = { ...a, ...b };
+	if (isSchema(a.properties) || isSchema(b.properties)) {
+		out.properties = { ...(isSchema(a.properties) ? a.properties : {}), ...(isSchema(b.properties) ? b.properties : {}) };
+	}
+	if (Array.isArray(a.required) || Array.isArray(b.required)) {
+		out.required = [...new Set([...((a.required as unknown[]) ?? []), ...((b.required as unknown[]) ?? [])])];
+	}
+	return out;
+}
+
+/**
+ * Look up a local JSON pointer such as `#/$defs/Item`
+ * @returns The target, or an empty schema when it does not exist
+ */
+function lookupRef(root: Schema, ref: string): Schema {
+	if (!ref.startsWith("#")) {
+		return {};
+	}
+	let node: unknown = root;
+	for (const segment of ref.slice(1).split("/").filter(Boolean)) {
+		const key = decodeURIComponent(segment).replace(/~1/g, "/").replace(/~0/g, "~");
+		node = isSchema(node) ? node[key] : undefined;
+	}
+	if (!isSchema(node)) {
+		return {};
+	}
+	// A reference to the root must not carry its definitions along
+	return omit(node, "$defs", "definitions");
+}
+
+/** A part cut off by the limits or a recursive reference: keep only its type and description */
+function collapse(schema: Schema): Schema {
+	const types = (Array.isArray(schema.type) ? schema.type : [schema.type]).filter((t) => typeof t === "string" && t !== "null");
+	const type = (types[0] as string | undefined) ?? inferType(schema);
+	const out: Schema = type ? { type } : {};
+	if (typeof schema.description === "string") {
+		out.description = schema.description;
+	}
+	if (type === "array") {
+		out.items = { type: "string" };
+	} else if (type === "object") {
+		out.properties = {};
+	}
+	return out;
+}
+
+/** Guess the type of a schema without one; undefined for unconstrained schemas, which accept any value */
+function inferType(schema: Schema): string | undefined {
+	if (schema.properties || schema.additionalProperties !== undefined || Array.isArray(schema.required)) {
+		return "object";
+	}
+	if (schema.items) {
+		return "array";
+	}
+	const values = "const" in schema ? [schema.const] : Array.isArray(schema.enum) ? schema.enum : [];
+	if (values.length > 0) {
+		if (values.every((v) => typeof v === "string")) {
+			return "string";
+		}
+		if (values.every((v) => typeof v === "number")) {
+			return values.every((v) => Number.isInteger(v)) ? "integer" : "number";
+		}
+		if (values.every((v) => typeof v === "boolean")) {
+			return "boolean";
+		}
+	}
+	return undefined;
+}
+
+function omit(schema: Schema, ...keys: string[]): Schema {
+	return Object.fromEntries(Object.entries(schema).filter(([k]) => !keys.includes(k)));
+}
+
+function isSchema(value: unknown): value is Schema {
+	return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Check a value against a tool's input schema
+ * Understands local `$ref`s, `anyOf`/`oneOf`/`allOf`, `const` and `additionalProperties: false`
+ * on top of type, required, properties, items and enum.
+ * @param value Parsed tool-call arguments
+ * @param schema The tool's inputSchema
+ * @returns Human-readable problems; empty when the value matches
+ */
+export function validateToolInput(value: unknown, schema: unknown): string[] {
+	return isSchema(schema) ? validate(value, schema, "$", schema) : [];
+}
+
+/**
+ * Result of coercing tool-call arguments
+ */
+export interface CoercionResult {
+	value: Record<string, unknown>;
+	/** What was changed, e.g. `$.limit: "5" → integer` */
+	changes: string[];
+}
+
+/**
+ * Bring model-produced arguments in line with the tool's schema where the intent is clear:
+ * stringified numbers, booleans and JSON arrays/objects are parsed when the schema asks for them,
+ * and unknown properties are removed when `additionalProperties` is false. Anything else is left as-is.
+ * @param value Parsed tool-call arguments
+ * @param schema The tool's inputSchema
+ */
+export function coerceToolInput(value: Record<string, unknown>, schema: unknown): CoercionResult {
+	const changes: string[] = [];
+	if (!isSchema(schema)) {
+		return { value, changes };
+	}
+	const coerced = coerce(value, schema, "$", schema, changes);
+	return { value: isSchema(coerced) ? coerced : value, changes };
+}
+
+function validate(value: unknown, input: Schema, path: string, root: Schema): string[] {
+	const s = resolveSchema(input, root);
+	const problems: string[] = [];
+
+	if (Array.isArray(s.allOf)) {
+		for (const part of s.allOf.filter(isSchema)) {
+			problems.push(...validate(value, part, path, root));
+		}
+	}
+	const union = (s.anyOf ?? s.oneOf) as unknown;
+	if (Array.isArray(union) && union.length > 0) {
+		const branches = union.filter(isSchema);
+		if (!branches.some((b) => validate(value, b, path, root).length === 0)) {
+			problems.push(`${path}: does not match any of the ${branches.length} allowed shapes`);
+		}
+	}
+
+	const types = typesOf(s);
+	if (types.length > 0 && !types.some((t) => matchesType(value, t))) {
+		return [...problems, `${path}: expected ${types.join(" | ")}, got ${describeType(value)}`];
+	}
+	if ("const" in s && JSON.stringify(s.const) !== JSON.stringify(value)) {
+		problems.push(`${path}: must be ${JSON.stringify(s.const)}`);
+	}
+	if (Array.isArray(s.enum) && !s.enum.some((e) => JSON.stringify(e) === JSON.stringify(value))) {
+		problems.push(`${path}: must be one of ${s.enum.map((e) => JSON.stringify(e)).join(", ")}`);
+	}
+
+	if (isSchema(value)) {
+		if (Array.isArray(s.required)) {
+			for (const key of s.required) {
+				if (typeof key === "string" && !(key in value)) {
+					problems.push(`${path}: missing required property "${key}"`);
+				}
+			}
+		}
+		const properties = isSchema(s.properties) ? s.properties : {};
+		for (const [key, item] of Object.entries(value)) {
+			const propSchema = properties[key];
+			if (isSchema(propSchema)) {
+				problems.push(...validate(item, propSchema, `${path}.${key}`, root));
+			} else if (isSchema(s.additionalProperties)) {
+				problems.push(...validate(item, s.additionalProperties, `${path}.${key}`, root));
+			} else if (s.additionalProperties === false && !s.patternProperties) {
+				problems.push(`${path}: unknown property "${key}"`);
+			}
+		}
+	} else if (Array.isArray(value) && isSchema(s.items)) {
+		const items = s.items;
+		value.forEach((item, i) => problems.push(...validate(item, items, `${path}[${i}]`, root)));
+	}
+	return problems;
+}
+
+function coerce(value: unknown, input: Schema, path: string, root: Schema, changes: string[]): unknown {
+	const s = resolveSchema(input, root);
+
+	const union = (s.anyOf ?? s.oneOf) as unknown;
+	if (Array.isArray(union) && union.length > 0) {
+		const branches = union.filter(isSchema);
+		if (branches.some((b) => validate(value, b, path, root).length === 0)) {
+			return value;
+		}
+		// Take the first branch the value can be coerced into
+		for (const branch of branches) {
+			const branchChanges: string[] = [];
+			const candidate = coerce(value, branch, path, root, branchChanges);
+			if (validate(candidate, branch, path, root).length === 0) {
+				changes.push(...branchChanges);
+				return candidate;
+			}
+		}
+		return value;
+	}
+	let result = value;
+	if (Array.isArray(s.allOf)) {
+		for (const part of s.allOf.filter(isSchema)) {
+			result = coerce(result, part, path, root, changes);
+		}
+	}
+
+	const types = typesOf(s);
+	if (typeof result === "string" && types.length > 0 && !types.includes("string")) {
+		for (const type of types) {
+			const parsed = parseAs(result, type);
+			if (parsed !== undefined) {
+				changes.push(`${path}: ${JSON.stringify(result.slice(0, 40))} → ${type}`);
+				result = parsed;
+				break;
+			}
+		}
+	}
+
+	if (isSchema(result)) {
+		const properties = isSchema(s.properties) ? s.properties : {};
+		const out: Record<string, unknown> = {};
+		for (const [key, item] of Object.entries(result)) {
+			const propSchema = properties[key];
+			if (isSchema(propSchema)) {
+				out[key] = coerce(item, propSchema, `${path}.${key}`, root, changes);
+			} else if (isSchema(s.additionalProperties)) {
+				out[key] = coerce(item, s.additionalProperties, `${path}.${key}`, root, changes);
+			} else if (s.additionalProperties === false && !s.patternProperties) {
+				changes.push(`${path}.${key}: removed (additionalProperties: false)`);
+			} else {
+				out[key] = item;
+			}
+		}
+		result = out;
+	} else if (Array.isArray(result) && isSchema(s.items)) {
+		const items = s.items;
+		result = result.map((item, i) => coerce(item, items, `${path}[${i}]`, root, changes));
+	}
+	return result;
+}
+
+/**
+ * Read a string the model produced where another type was expected
+ * @returns The parsed value, or undefined when the string does not hold that type
+ */
+function parseAs(text: string, type: string): unknown {
+	const trimmed = text.trim();
+	switch (type) {
+		case "number":
+		case "integer": {
+			if (!/^-?\d+(\.\d+)?(e[+-]?\d+)?$/i.test(trimmed)) {
+				return undefined;
+			}
+			const n = Number(trimmed);
+			return type === "integer" && !Number.isInteger(n) ? undefined : n;
+		}
+		case "boolean":
+			return /^(true|false)$/i.test(trimmed) ? trimmed.toLowerCase() === "true" : undefined;
+		case "array":
+		case "object": {
+			if (!/^[[{]/.test(trimmed)) {
+				return undefined;
+			}
+			try {
+				const parsed: unknown = JSON.parse(trimmed);
+				return matchesType(parsed, type) ? parsed : undefined;
+			} catch {
+				return undefined;
+			}
+		}
+		case "null":
+			return trimmed === "null" ? null : undefined;
+		default:
+			return undefined;
+	}
+}
+
+/** Follow `$ref`s of an original (not normalized) schema; keywords next to a `$ref` are kept */
+function resolveSchema(input: Schema, root: Schema): Schema {
+	let schema = input;
+	// Bounded so a reference cycle such as A → B → A cannot loop forever
+	for (let hops = 0; typeof schema.$ref === "string" && hops < 32; hops++) {
+		schema = { ...lookupRef(root, schema.$ref), ...omit(schema, "$ref") };
+	}
+	return schema;
+}
+
+function typesOf(schema: Schema): string[] {
+	if (Array.isArray(schema.type)) {
+		return schema.type.filter((t): t is string => typeof t === "string");
+	}
+	return typeof schema.type === "string" ? [schema.type] : [];
+}
+
+function matchesType(value: unknown, type: string): boolean {
+	switch (type) {
+		case "object":
+			return isSchema(value);
+		case "array":
+			return Array.isArray(value);
+		case "string":
+			return typeof value === "string";
+		case "number":
+			return typeof value === "number" && Number.isFinite(value);
+		case "integer":
+			return typeof value === "number" && Number.isInteger(value);
+		case "boolean":
+			return typeof value === "boolean";
+		case "null":
+			return value === null;
+		default:
+			return true;
+	}
+}
+
+function describeType(value: unknown): string {
+	if (value === null) {
+		return "null";
+	}
+	return Array.isArray(value) ? "array" : typeof value;
+}
@@ -0,0 +1,251 @@
+/**
+ * Tool selection for ChatGLM Router
+ * When a request offers more tools than a model's limits allow (many MCP servers), only the
+ * most relevant ones are sent: tools already used in the conversation are always kept, the
+ * rest are ranked by lexical relevance to the latest user message and by kinship with
+ * recently used tools, then added until the count or token budget is reached.
+ */
+
+import * as vscode from "vscode";
+import { mergeModelDefaults } from "./request-params";
+
+/**
+ * Tool limits for one model
+ */
+export interface ToolSelectionLimits {
+	maxTools?: number;
+	/** 0 means a quarter of the model's input limit */
+	maxTokens?: number;
+}
+
+/**
+ * Tool selection settings
+ */
+export interface ToolSelectionOptions {
+	enabled: boolean;
+	/** Most tools sent in one request */
+	maxTools: number;
+	/** Token budget for tool definitions */
+	maxTokens: number;
+	/** Token counter for one tool definition */
+	countTokens: (tool: vscode.LanguageModelChatTool) => number;
+}
+
+/**
+ * Outcome of tool selection
+ */
+export interface ToolSelectionResult {
+	tools: vscode.LanguageModelChatTool[];
+	/** Names of tools left out, most relevant first */
+	dropped: string[];
+	/** Names of tools kept because the conversation already used them */
+	kept: string[];
+	tokensBefore: number;
+	tokensAfter: number;
+}
+
+/** Hard limit of the chat completions API */
+export const MAX_TOOLS_PER_REQUEST = 128;
+
+/** How many of the latest messages count as recent tool usage */
+const RECENT_MESSAGES = 6;
+
+const STOP_WORDS = new Set([
+	"a", "an", "and", "are", "as", "at", "be", "by", "can", "do", "for", "from", "how", "i", "in", "is", "it",
+	"me", "my", "of", "on", "or", "please", "that", "the", "this", "to", "use", "what", "with", "you",
+]);
+
+/**
+ * Read tool selection settings for a model
+ * @param modelId Model ID without the provider prefix, matched against `toolSelection.perModel` keys
+ * @param maxInputTokens The model's input limit, the base of the default token budget
+ * @param countTokens Token counter for one tool definition
+ */
+export function getToolSelectionOptions(
+	modelId: string,
+	maxInputTokens: number,
+	countTokens: (tool: vscode.LanguageModelChatTool) => number
+): ToolSelectionOptions {
+	const config = vscode.workspace.getConfiguration("chatglmRouter.toolSelection");
+	const perModel = config.get<Record<string, ToolSelectionLimits>>("perModel", {}) ?? {};
+	// Every matching entry applies, general patterns first, as for the other per-model settings
+	const limits = mergeModelDefaults(perModel, modelId);
+	const maxTools = limits.maxTools ?? config.get<number>("maxTools", MAX_TOOLS_PER_REQUEST);
+	const maxTokens = limits.maxTokens ?? config.get<number>("maxTokens", 0);
+	return {
+		enabled: config.get<boolean>("enabled", true),
+		maxTools: Math.min(MAX_TOOLS_PER_REQUEST, Math.max(1, Math.floor(maxTools))),
+		maxTokens: maxTokens > 0 ? maxTokens : Math.floor(maxInputTokens / 4),
+		countTokens,
+	};
+}
+
+/**
+ * Pick the tools to send with a request
+ * Requests within both limits are returned unchanged, so the common case costs nothing.
+ * @param tools Tools offered by the host
+ * @param messages Conversation, used for the latest user message and tool usage
+ * @param options Limits and token counter
+ */
+export function selectTools(
+	tools: readonly vscode.LanguageModelChatTool[],
+	messages: readonly vscode.LanguageModelChatRequestMessage[],
+	options: ToolSelectionOptions
+): ToolSelectionResult {
+	const tokens = tools.map((tool) => options.countTokens(tool));
+	const tokensBefore = tokens.reduce((a, b) => a + b, 0);
+	const result: ToolSelectionResult = { tools: [...tools], dropped: [], kept: [], tokensBefore, tokensAfter: tokensBefore };
+	if (!options.enabled || (tools.length <= options.maxTools && tokensBefore <= options.maxTokens)) {
+		return result;
+	}
+
+	const { used, recent } = toolUsage(messages);
+	const scores = scoreTools(tools, latestUserText(messages), recent);
+	const order = tools
+		.map((tool, index) => ({ tool, index, kept: used.has(tool.name), score: scores[index] }))
+		.sort((a, b) => Number(b.kept) - Number(a.kept) || b.score - a.score || a.index - b.index);
+
+	const selected = new Set<number>();
+	let total = 0;
+	for (const { tool, index, kept } of order) {
+		const fits = selected.size < options.maxTools && total + tokens[index] <= options.maxTokens;
+		// Tools the conversation already called stay as long as the count allows
+		if (fits || (kept && selected.size < options.maxTools)) {
+			selected.add(index);
+			total += tokens[index];
+			if (kept) {
+				result.kept.push(tool.name);
+			}
+		} else {
+			result.dropped.push(tool.name);
+		}
+	}
+	result.tools = tools.filter((_, index) => selected.has(index));
+	result.tokensAfter = total;
+	return result;
+}
+
+/**
+ * Names of tools called anywhere in the conversation, and of those called in the latest messages
+ * @param messages Conversation
+ */
+function toolUsage(messages: readonly vscode.LanguageModelChatRequestMessage[]): { used: Set<string>; recent: Set<string> } {
+	const used = new Set<string>();
+	const recent = new Set<string>();
+	messages.forEach((message, i) => {
+		for (const part of message.content) {
+			if (part instanceof vscode.LanguageModelToolCallPart) {
+				used.add(part.name);
+				if (i >= messages.length - RECENT_MESSAGES) {
+					recent.add(part.name);
+				}
+			}
+		}
+	});
+	return { used, recent };
+}
+
+/**
+ * Text of the latest user message that is not only tool results
+ * @param messages Conversation
+ */
+function latestUserText(messages: readonly vscode.LanguageModelChatRequestMessage[]): string {
+	for (let i = messages.length - 1; i >= 0; i--) {
+		const message = messages[i];
+		if (message.role !== vscode.LanguageModelChatMessageRole.User) {
+			continue;
+		}
+		const text = message.content
+			.filter((p): p is vscode.LanguageModelTextPart => p instanceof vscode.LanguageModelTextPart)
+			.map((p) => p.value)
+			.join(" ");
+		if (text.trim()) {
+			return text;
+		}
+	}
+	return "";
+}
+
+/**
+ * Relevance of each tool: query terms found in its name and description weighted by rarity
+ * across all tools (matches in the name count double), plus a bonus for tools from the same
+ * family (name prefix, e.g. an MCP server) as a recently used tool
+ * @param tools Tools
+ * @param query Latest user message
+ * @param recent Names of recently used tools
+ */
+function scoreTools(tools: readonly vscode.LanguageModelChatTool[], query: string, recent: Set<string>): number[] {
+	const names = tools.map((tool) => new Set(terms(tool.name)));
+	const docs = tools.map((tool, i) => new Set([...names[i], ...terms(tool.description ?? ""), ...schemaTerms(tool.inputSchema)]));
+	const df = new Map<string, number>();
+	for (const doc of docs) {
+		for (const term of doc) {
+			df.set(term, (df.get(term) ?? 0) + 1);
+		}
+	}
+	const queryTerms = new Set(terms(query));
+	const recentFamilies = new Set([...recent].map(family).filter((f): f is string => f !== undefined));
+
+	return tools.map((tool, i) => {
+		let score = 0;
+		for (const term of queryTerms) {
+			if (docs[i].has(term)) {
+				const idf = Math.log(1 + tools.length / (df.get(term) ?? 1));
+				score += names[i].has(term) ? 2 * idf : idf;
+			}
+		}
+		const f = family(tool.name);
+		if (f !== undefined && recentFamilies.has(f)) {
+			score += 1;
+		}
+		return score;
+	});
+}
+
+/**
+ * Split text into lower-case search terms: words split at camelCase, snake_case and
+ * punctuation, and CJK text as overlapping character pairs
+ * @param text Text
+ */
+function terms(text: string): string[] {
+	const out: string[] = [];
+	const spaced = text.replace(/([a-z0-9])([A-Z])/g, "$1 $2");
+	for (const word of spaced.toLowerCase().match(/[a-z0-9]+|[\u3400-\u9fff]+/g) ?? []) {
+		if (/^[\u3400-\u9fff]/.test(word)) {
+			for (let i = 0; i < word.length; i++) {
+				out.push(word.length === 1 ? word : word.slice(i, i + 2));
+				if (i + 2 >= word.length) {
+					break;
+				}
+			}
+		} else if (word.length > 1 && !STOP_WORDS.has(word)) {
+			out.push(stem(word));
+		}
+	}
+	return out;
+}
+
+/** Strip a plural or -ing ending so "files" matches "file" and "searching" matches "search" */
+function stem(word: string): string {
+	if (word.length > 5 && word.endsWith("ing")) {
+		return word.slice(0, -3);
+	}
+	if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) {
+		return word.slice(0, -1);
+	}
+	return word;
+}
+
+/** Property names of the top level of a tool's input schema */
+function schemaTerms(schema: object | undefined): string[] {
+	const properties = (schema as { properties?: Record<string, unknown> } | undefined)?.properties;
+	return properties && typeof properties === "object" ? Object.keys(properties).flatMap(terms) : [];
+}
+
+/**
+ * Family of a tool: the MCP server of `mcp_<server>_<tool>` names, e.g. "mcp_github"
+ * @returns undefined for tools that are not from an MCP server
+ */
+function family(name: string): string | undefined {
+	return /^(mcp_[^_]+)_/.exec(name)?.[1];
+}
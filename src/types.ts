@@ -15,12 +15,33 @@ export interface OpenAIFunctionToolDef {
 	function: { name: string; description?: string; parameters?: object };
 }
 
+/**
+ * Zhipu's server-side web search tool, sent next to function tools.
+ */
+export interface ZhipuWebSearchToolDef {
+	type: "web_search";
+	web_search: {
+		enable: boolean;
+		search_engine: string;
+		search_result: boolean;
+		count: number;
+		search_recency_filter: string;
+	};
+}
+
+/**
+ * Part of a multimodal (vision) user message.
+ */
+export type OpenAIContentPart =
+	| { type: "text"; text: string }
+	| { type: "image_url"; image_url: { url: string } };
+
 /**
  * OpenAI-style chat message used for router requests.
  */
 export interface OpenAIChatMessage {
 	role: OpenAIChatRole;
-	content?: string;
+	content?: string | OpenAIContentPart[];
 	name?: string;
 	tool_calls?: OpenAIToolCall[];
 	tool_call_id?: string;
@@ -74,6 +95,17 @@ export interface HFModelsResponse {
 	data: HFModelItem[];
 }
 
+/**
+ * Token usage block reported by the chat completions endpoint (usually on the final stream chunk).
+ */
+export interface OpenAIUsage {
+	prompt_tokens?: number;
+	completion_tokens?: number;
+	total_tokens?: number;
+	prompt_tokens_details?: { cached_tokens?: number };
+	completion_tokens_details?: { reasoning_tokens?: number };
+}
+
 /**
  * Buffer used to accumulate streamed tool call parts until arguments are valid JSON.
  */
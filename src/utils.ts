@@ -1,28 +1,15 @@
 import * as vscode from "vscode";
-import type { OpenAIChatMessage, OpenAIChatRole, OpenAIFunctionToolDef, OpenAIToolCall } from "./types";
+import type { OpenAIChatMessage, OpenAIChatRole, OpenAIContentPart, OpenAIFunctionToolDef, OpenAIToolCall } from "./types";
+import { log } from "./logger";
+import { normalizeToolSchema } from "./tool-schema";
 
-// Tool calling sanitization helpers
+/** Largest image GLM vision models accept (after base64 decoding) */
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
 
-function isIntegerLikePropertyName(propertyName: string | undefined): boolean {
-    if (!propertyName){
-		return false;
-	}
-    const lowered = propertyName.toLowerCase();
-    const integerMarkers = [
-        "id",
-        "limit",
-        "count",
-        "index",
-        "size",
-        "offset",
-        "length",
-        "results_limit",
-        "maxresults",
-        "debugsessionid",
-        "cellid",
-    ];
-    return integerMarkers.some((m) => lowered.includes(m)) || lowered.endsWith("_id");
-}
+/** Image formats accepted by GLM vision models */
+export const SUPPORTED_IMAGE_MIME_TYPES = ["image/png", "image/jpeg", "image/jpg"];
+
+// Tool calling sanitization helpers
 
 function sanitizeFunctionName(name: unknown): string {
     if (typeof name !== "string" || !name){
@@ -36,117 +23,24 @@ function sanitizeFunctionName(name: unknown): string {
     return sanitized.slice(0, 64);
 }
 
-function pruneUnknownSchemaKeywords(schema: unknown): Record<string, unknown> {
-    if (!schema || typeof schema !== "object" || Array.isArray(schema)){
-		return {};
-	}
-    const allow = new Set([
-        "type",
-        "properties",
-        "required",
-        "additionalProperties",
-        "description",
-        "enum",
-        "default",
-        "items",
-        "minLength",
-        "maxLength",
-        "minimum",
-        "maximum",
-        "pattern",
-        "format",
-    ]);
-    const out: Record<string, unknown> = {};
-    for (const [k, v] of Object.entries(schema as Record<string, unknown>)) {
-        if (allow.has(k)){
-			out[k] = v as unknown;
-		}
-    }
-    return out;
-}
-
-function sanitizeSchema(input: unknown, propName?: string): Record<string, unknown> {
-    if (!input || typeof input !== "object" || Array.isArray(input)) {
-        return { type: "object", properties: {} } as Record<string, unknown>;
-    }
-
-    let schema = input as Record<string, unknown>;
-
-    for (const composite of ["anyOf", "oneOf", "allOf"]) {
-        const branch = (schema as Record<string, unknown>)[composite] as unknown;
-        if (Array.isArray(branch) && branch.length > 0) {
-            let preferred: Record<string, unknown> | undefined;
-            for (const b of branch) {
-                if (b && typeof b === "object" && (b as Record<string, unknown>).type === "string") {
-                    preferred = b as Record<string, unknown>;
-                    break;
-                }
-            }
-            schema = { ...(preferred ?? (branch[0] as Record<string, unknown>)) };
-            break;
-        }
-    }
-
-    schema = pruneUnknownSchemaKeywords(schema);
-
-    let t = schema.type as string | undefined;
-    if (t == null) {
-        t = "object";
-        schema.type = t;
-    }
-
-    if (t === "number" && propName && isIntegerLikePropertyName(propName)) {
-        schema.type = "integer";
-        t = "integer";
-    }
-
-    if (t === "object") {
-        const props = (schema.properties as Record<string, unknown> | undefined) ?? {};
-        const newProps: Record<string, unknown> = {};
-        if (props && typeof props === "object") {
-            for (const [k, v] of Object.entries(props)) {
-                newProps[k] = sanitizeSchema(v, k);
-            }
-        }
-        schema.properties = newProps;
-
-        const req = schema.required as unknown;
-        if (Array.isArray(req)) {
-            schema.required = req.filter((r) => typeof r === "string");
-        } else if (req !== undefined) {
-            schema.required = [];
-        }
-
-        const ap = schema.additionalProperties as unknown;
-        if (ap !== undefined && typeof ap !== "boolean") {
-            delete schema.additionalProperties;
-        }
-    } else if (t === "array") {
-        const items = schema.items as unknown;
-        if (Array.isArray(items) && items.length > 0) {
-            schema.items = sanitizeSchema(items[0]);
-        } else if (items && typeof items === "object") {
-            schema.items = sanitizeSchema(items);
-        } else {
-            schema.items = { type: "string" } as Record<string, unknown>;
-        }
-    }
-
-    return schema;
-}
-
 /**
  * Convert VS Code chat request messages into OpenAI-compatible message objects.
  * @param messages The VS Code chat messages to convert.
+ * @param options imageInput: whether the target model accepts images; otherwise images become text placeholders.
  * @returns OpenAI-compatible messages array.
  */
-export function convertMessages(messages: readonly vscode.LanguageModelChatRequestMessage[]): OpenAIChatMessage[] {
+export function convertMessages(
+	messages: readonly vscode.LanguageModelChatRequestMessage[],
+	options?: { imageInput?: boolean }
+): OpenAIChatMessage[] {
 	const out: OpenAIChatMessage[] = [];
 	for (const m of messages) {
 		const role = mapRole(m);
 		const textParts: string[] = [];
+		const imageParts: OpenAIContentPart[] = [];
 		const toolCalls: OpenAIToolCall[] = [];
 		const toolResults: { callId: string; content: string }[] = [];
+		const toolImages: OpenAIContentPart[] = [];
 
 		for (const part of m.content ?? []) {
 			if (part instanceof vscode.LanguageModelTextPart) {
@@ -162,8 +56,23 @@ export function convertMessages(messages: readonly vscode.LanguageModelChatReque
 				toolCalls.push({ id, type: "function", function: { name: part.name, arguments: args } });
 			} else if (isToolResultPart(part)) {
 				const callId = (part as { callId?: string }).callId ?? "";
-				const content = collectToolResultText(part as { content?: ReadonlyArray<unknown> });
-				toolResults.push({ callId, content });
+				// Tool messages are text only; images travel in the user message that follows
+				const result = convertToolResult(part as { content?: ReadonlyArray<unknown> }, !!options?.imageInput && role === "user");
+				toolResults.push({ callId, content: result.text });
+				if (result.images.length > 0) {
+					toolImages.push({ type: "text", text: `Images returned by tool call ${callId}:` }, ...result.images);
+				}
+			} else if (isImageDataPart(part)) {
+				// Only user messages may carry images in the OpenAI/Zhipu format
+				if (options?.imageInput && role === "user") {
+					imageParts.push(toImageContentPart(part));
+				} else {
+					log.warn("Dropping image attachment: model does not accept image input", {
+						mimeType: part.mimeType,
+						bytes: part.data.byteLength,
+					});
+					textParts.push(`[image omitted (${part.mimeType}): the selected model does not accept image input]`);
+				}
 			}
 		}
 
@@ -177,14 +86,52 @@ export function convertMessages(messages: readonly vscode.LanguageModelChatReque
 			out.push({ role: "tool", tool_call_id: tr.callId, content: tr.content || "" });
 		}
 
+		imageParts.unshift(...toolImages);
 		const text = textParts.join("");
-		if (text && (role === "system" || role === "user" || (role === "assistant" && !emittedAssistantToolCall))) {
+		if (imageParts.length > 0) {
+			const content: OpenAIContentPart[] = text ? [{ type: "text", text }, ...imageParts] : imageParts;
+			out.push({ role: "user", content });
+		} else if (text && (role === "system" || role === "user" || (role === "assistant" && !emittedAssistantToolCall))) {
 			out.push({ role, content: text });
 		}
 	}
 	return out;
 }
 
+/**
+ * Type guard for image LanguageModelDataPart-like values (the class is not in the stable API typings).
+ * @param value Unknown value to test.
+ */
+export function isImageDataPart(value: unknown): value is { mimeType: string; data: Uint8Array } {
+	if (!value || typeof value !== "object") {
+		return false;
+	}
+	const obj = value as Record<string, unknown>;
+	return typeof obj.mimeType === "string" && obj.mimeType.startsWith("image/") && obj.data instanceof Uint8Array;
+}
+
+/**
+ * Convert image bytes to an `image_url` content part with a base64 data URL.
+ * Throws a descriptive error when the image cannot be sent as-is (no local downscaling is done).
+ * @param image Image data part.
+ */
+function toImageContentPart(image: { mimeType: string; data: Uint8Array }): OpenAIContentPart {
+	const mimeType = image.mimeType.toLowerCase();
+	if (!SUPPORTED_IMAGE_MIME_TYPES.includes(mimeType)) {
+		throw new Error(
+			`Unsupported image type "${image.mimeType}": GLM vision models accept PNG or JPEG. Convert the image and attach it again.`
+		);
+	}
+	if (image.data.byteLength > MAX_IMAGE_BYTES) {
+		const sizeMb = (image.data.byteLength / (1024 * 1024)).toFixed(1);
+		throw new Error(
+			`Image is too large (${sizeMb} MB): GLM vision models accept images up to ${MAX_IMAGE_BYTES / (1024 * 1024)} MB. Downscale or crop the image and attach it again.`
+		);
+	}
+	const base64 = Buffer.from(image.data).toString("base64");
+	return { type: "image_url", image_url: { url: `data:${mimeType};base64,${base64}` } };
+}
+
 /**
  * Convert VS Code tool definitions to OpenAI function tool definitions.
  * @param options Request options containing tools and toolMode.
@@ -203,7 +150,7 @@ export function convertTools(options: vscode.LanguageModelChatRequestHandleOptio
 		.map((t) => {
 			const name = sanitizeFunctionName(t.name);
 			const description = typeof t.description === "string" ? t.description : "";
-			const params = sanitizeSchema(t.inputSchema ?? { type: "object", properties: {} });
+			const params = normalizeToolSchema(t.inputSchema);
 			return {
 				type: "function" as const,
 				function: {
@@ -217,7 +164,7 @@ export function convertTools(options: vscode.LanguageModelChatRequestHandleOptio
 	let tool_choice: "auto" | { type: "function"; function: { name: string } } = "auto";
 	if (options.toolMode === vscode.LanguageModelChatToolMode.Required) {
 		if (tools.length !== 1) {
-            console.error("[ChatGLM Router] ToolMode.Required but multiple tools:", tools.length);
+            log.error("ToolMode.Required but multiple tools:", tools.length);
             throw new Error("LanguageModelChatToolMode.Required is not supported with more than one tool");
 		}
 		tool_choice = { type: "function", function: { name: sanitizeFunctionName(tools[0].name) } };
@@ -233,7 +180,7 @@ export function convertTools(options: vscode.LanguageModelChatRequestHandleOptio
 export function validateTools(tools: readonly vscode.LanguageModelChatTool[]): void {
 	for (const tool of tools) {
 		if (!tool.name.match(/^[\w-]+$/)) {
-            console.error("[ChatGLM Router] Invalid tool name detected:", tool.name);
+            log.error("Invalid tool name detected:", tool.name);
             throw new Error(
                 `Invalid tool name "${tool.name}": only alphanumeric characters, hyphens, and underscores are allowed.`
             );
@@ -248,7 +195,7 @@ export function validateTools(tools: readonly vscode.LanguageModelChatTool[]): v
 export function validateRequest(messages: readonly vscode.LanguageModelChatRequestMessage[]): void {
 	const lastMessage = messages[messages.length - 1];
 	if (!lastMessage) {
-    console.error("[ChatGLM Router] No messages in request");
+    log.error("No messages in request");
     throw new Error("Invalid request: no messages.");
 	}
 
@@ -269,7 +216,7 @@ export function validateRequest(messages: readonly vscode.LanguageModelChatReque
 			while (toolCallIds.size > 0) {
 				const nextMessage = messages[nextMessageIdx++];
 				if (!nextMessage || nextMessage.role !== vscode.LanguageModelChatMessageRole.User) {
-                    console.error("[ChatGLM Router] Validation failed: missing tool result for call IDs:", Array.from(toolCallIds));
+                    log.error("Validation failed: missing tool result for call IDs:", Array.from(toolCallIds));
                     throw new Error(errMsg);
 				}
 
@@ -278,7 +225,7 @@ export function validateRequest(messages: readonly vscode.LanguageModelChatReque
 						const ctorName =
 							(Object.getPrototypeOf(part as object) as { constructor?: { name?: string } } | undefined)?.constructor
 								?.name ?? typeof part;
-                        console.error("[ChatGLM Router] Validation failed: expected tool result part, got:", ctorName);
+                        log.error("Validation failed: expected tool result part, got:", ctorName);
                         throw new Error(errMsg);
 					}
 					const callId = (part as { callId: string }).callId;
@@ -321,25 +268,154 @@ function mapRole(message: vscode.LanguageModelChatRequestMessage): Exclude<OpenA
 }
 
 /**
- * Concatenate tool result content into a single text string.
+ * Convert tool result content for GLM: text, JSON and prompt-tsx parts become text; images are
+ * returned separately when they can be forwarded, otherwise described by a placeholder.
  * @param pr Tool result-like object with content array.
+ * @param imageInput Whether images can be forwarded to the model.
  */
-function collectToolResultText(pr: { content?: ReadonlyArray<unknown> }): string {
+function convertToolResult(
+	pr: { content?: ReadonlyArray<unknown> },
+	imageInput: boolean
+): { text: string; images: OpenAIContentPart[] } {
 	let text = "";
+	const images: OpenAIContentPart[] = [];
+	const appendBlock = (block: string) => {
+		if (block) {
+			text += text && !text.endsWith("\n") ? `\n${block}` : block;
+		}
+	};
 	for (const c of pr.content ?? []) {
 		if (c instanceof vscode.LanguageModelTextPart) {
 			text += c.value;
 		} else if (typeof c === "string") {
 			text += c;
+		} else if (isImageDataPart(c)) {
+			if (!imageInput) {
+				appendBlock(`[image returned by the tool (${c.mimeType}, ${formatBytes(c.data.byteLength)}): the selected model does not accept image input]`);
+				continue;
+			}
+			try {
+				images.push(toImageContentPart(c));
+				appendBlock(`[image ${images.length} returned by the tool is attached below]`);
+			} catch (err) {
+				appendBlock(`[image returned by the tool omitted: ${err instanceof Error ? err.message : String(err)}]`);
+			}
 		} else {
+			appendBlock(serializeToolResultPart(c));
+		}
+	}
+	return { text, images };
+}
+
+/** Longest JSON or data part of a tool result sent to the model, in characters */
+export const MAX_TOOL_RESULT_PART_CHARS = 32000;
+
+/** Data part MIME types VS Code uses for request metadata rather than content */
+const METADATA_MIME_TYPES = ["cache_control", "stateful_marker"];
+
+/**
+ * Text for a non-text tool result part: data parts (JSON pretty-printed, text decoded),
+ * prompt-tsx trees rendered to their text, anything else as JSON. Long output is capped.
+ * @param part Tool result content part.
+ */
+export function serializeToolResultPart(part: unknown): string {
+	if (part instanceof vscode.LanguageModelTextPart) {
+		return part.value;
+	}
+	if (typeof part === "string") {
+		return part;
+	}
+	if (isImageDataPart(part)) {
+		return `[image (${part.mimeType}, ${formatBytes(part.data.byteLength)})]`;
+	}
+	if (part instanceof vscode.LanguageModelPromptTsxPart) {
+		return capText(renderPromptTsx(part.value).trim());
+	}
+	if (isDataPart(part)) {
+		const mimeType = part.mimeType.toLowerCase();
+		if (METADATA_MIME_TYPES.includes(mimeType)) {
+			return "";
+		}
+		const decoded = new TextDecoder().decode(part.data);
+		if (/[/+]json$/.test(mimeType)) {
 			try {
-				text += JSON.stringify(c);
+				return capText(JSON.stringify(JSON.parse(decoded), null, 2));
 			} catch {
-				/* ignore */
+				return capText(decoded);
+			}
+		}
+		if (mimeType.startsWith("text/")) {
+			return capText(decoded);
+		}
+		return `[binary data returned by the tool (${part.mimeType}, ${formatBytes(part.data.byteLength)})]`;
+	}
+	try {
+		return capText(JSON.stringify(part, null, 2) ?? "");
+	} catch {
+		return "";
+	}
+}
+
+/**
+ * Type guard for LanguageModelDataPart-like values (the class is not in the stable API typings).
+ * @param value Unknown value to test.
+ */
+function isDataPart(value: unknown): value is { mimeType: string; data: Uint8Array } {
+	if (!value || typeof value !== "object") {
+		return false;
+	}
+	const obj = value as Record<string, unknown>;
+	return typeof obj.mimeType === "string" && obj.data instanceof Uint8Array;
+}
+
+/**
+ * Render the text of a `@vscode/prompt-tsx` element tree (the result of `renderElementJSON`).
+ * @param value PromptElementJSON or one of its nodes.
+ */
+function renderPromptTsx(value: unknown): string {
+	if (!value || typeof value !== "object") {
+		return "";
+	}
+	const node = value as Record<string, unknown>;
+	if (node.node) {
+		return renderPromptTsx(node.node);
+	}
+	// Node types and constructor kinds from prompt-tsx's jsonTypes
+	switch (node.type) {
+		case 1: {
+			const props = (node.props ?? {}) as Record<string, unknown>;
+			if (node.ctor === 3) {
+				return `[image: ${typeof props.src === "string" && !props.src.startsWith("data:") ? props.src : "inline data"}]`;
 			}
+			if (node.ctor === 4) {
+				return `[document (${String(props.mediaType ?? "unknown type")})]`;
+			}
+			const children = Array.isArray(node.children) ? node.children : [];
+			return children.map(renderPromptTsx).join("");
 		}
+		case 2:
+			return `${node.lineBreakBefore ? "\n" : ""}${typeof node.text === "string" ? node.text : ""}`;
+		case 3:
+			return typeof node.value === "string" ? node.value : "";
+		default:
+			return "";
 	}
-	return text;
+}
+
+/**
+ * Cut text longer than MAX_TOOL_RESULT_PART_CHARS, keeping the beginning.
+ * @param text Text to cap.
+ */
+function capText(text: string): string {
+	if (text.length <= MAX_TOOL_RESULT_PART_CHARS) {
+		return text;
+	}
+	const removed = text.length - MAX_TOOL_RESULT_PART_CHARS;
+	return `${text.slice(0, MAX_TOOL_RESULT_PART_CHARS)}\n[... truncated ${removed} characters ...]`;
+}
+
+function formatBytes(bytes: number): string {
+	return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
 }
 
 /**
@@ -0,0 +1,198 @@
+/**
+ * Built-in web search for ChatGLM Router
+ * Zhipu's chat API can search the web on the server side when a `web_search` tool is sent
+ * along with the function tools. The results it used stream back in a top-level `web_search`
+ * field and are shown as a list of sources after the answer.
+ */
+
+import * as vscode from "vscode";
+import type { ProviderConfig } from "./config";
+import { getModelOverrides, hasModelCapability, matchesModelPattern, modelPatternSpecificity, type ModelMetadata } from "./model-catalog";
+import type { ZhipuWebSearchToolDef } from "./types";
+
+/** Search engines offered by the web_search tool */
+export const SEARCH_ENGINES = ["search_std", "search_pro", "search_pro_sogou", "search_pro_quark"] as const;
+
+/** Time ranges for search results */
+export const SEARCH_RECENCY_FILTERS = ["oneDay", "oneWeek", "oneMonth", "oneYear", "noLimit"] as const;
+
+/**
+ * Web search settings, as given in settings entries and `modelOptions.web_search`
+ */
+export interface WebSearchSettings {
+	enabled?: boolean;
+	searchEngine?: string;
+	/** Number of results, 1 to 50 */
+	count?: number;
+	/** One of SEARCH_RECENCY_FILTERS */
+	recency?: string;
+}
+
+/**
+ * Resolved web search options for one request
+ */
+export interface WebSearchOptions {
+	searchEngine: (typeof SEARCH_ENGINES)[number];
+	count: number;
+	recency: (typeof SEARCH_RECENCY_FILTERS)[number];
+}
+
+/**
+ * A search result returned in the stream
+ */
+export interface WebSearchResult {
+	title: string;
+	link: string;
+	/** Site name */
+	media?: string;
+	/** Reference marker the answer cites, e.g. "[ref_1]" */
+	refer?: string;
+	publishDate?: string;
+}
+
+const DEFAULT_SETTINGS: Required<WebSearchSettings> = { enabled: false, searchEngine: "search_std", count: 5, recency: "noLimit" };
+
+/**
+ * Decide whether a request searches the web, and with which options
+ * Precedence (lowest to highest): the global settings, `webSearch.perProvider[providerId]`,
+ * matching `webSearch.perModel` entries (general patterns first) and `modelOptions.web_search`,
+ * which may be a boolean or an object with the same fields.
+ * @param providerId Provider ID
+ * @param modelId Model ID without the provider prefix
+ * @param modelOptions Request model options
+ * @returns undefined when web search is off for the request
+ */
+export function getWebSearchOptions(providerId: string, modelId: string, modelOptions?: Record<string, unknown>): WebSearchOptions | undefined {
+	const config = vscode.workspace.getConfiguration("chatglmRouter.webSearch");
+	const global: WebSearchSettings = {
+		enabled: config.get<boolean>("enabled", DEFAULT_SETTINGS.enabled),
+		searchEngine: config.get<string>("searchEngine", DEFAULT_SETTINGS.searchEngine),
+		count: config.get<number>("count", DEFAULT_SETTINGS.count),
+		recency: config.get<string>("recency", DEFAULT_SETTINGS.recency),
+	};
+	const perProvider = config.get<Record<string, WebSearchSettings>>("perProvider", {})?.[providerId];
+	const perModel = matchingEntries(config.get<Record<string, WebSearchSettings>>("perModel", {}) ?? {}, modelId);
+	const fromRequest = modelOptions?.web_search;
+	const request = typeof fromRequest === "boolean" ? { enabled: fromRequest } : (fromRequest as WebSearchSettings | undefined);
+	return resolveWebSearchOptions([global, perProvider, ...perModel, request]);
+}
+
+/**
+ * Whether a provider's model accepts the `web_search` tool
+ * Zhipu endpoints always do; OpenAI-compatible providers only for models whose modelOverrides
+ * entry sets `webSearch: true`.
+ * @param provider Provider configuration
+ * @param modelId Model ID without the provider prefix
+ * @param overrides User overrides, usually from getModelOverrides()
+ */
+export function supportsWebSearch(provider: ProviderConfig, modelId: string, overrides: readonly ModelMetadata[] = getModelOverrides()): boolean {
+	return !provider.isCustom || hasModelCapability(modelId, "webSearch", overrides);
+}
+
+/**
+ * Merge settings layers, later layers winning; invalid values are ignored
+ * @param layers Settings from lowest to highest precedence
+ */
+export function resolveWebSearchOptions(layers: readonly (WebSearchSettings | undefined)[]): WebSearchOptions | undefined {
+	const merged = { ...DEFAULT_SETTINGS };
+	for (const layer of layers) {
+		if (!layer || typeof layer !== "object") {
+			continue;
+		}
+		if (typeof layer.enabled === "boolean") {
+			merged.enabled = layer.enabled;
+		}
+		if (SEARCH_ENGINES.some((e) => e === layer.searchEngine)) {
+			merged.searchEngine = layer.searchEngine!;
+		}
+		if (Number.isInteger(layer.count) && layer.count! >= 1 && layer.count! <= 50) {
+			merged.count = layer.count!;
+		}
+		if (SEARCH_RECENCY_FILTERS.some((r) => r === layer.recency)) {
+			merged.recency = layer.recency!;
+		}
+	}
+	if (!merged.enabled) {
+		return undefined;
+	}
+	return {
+		searchEngine: merged.searchEngine as WebSearchOptions["searchEngine"],
+		count: merged.count,
+		recency: merged.recency as WebSearchOptions["recency"],
+	};
+}
+
+/**
+ * Build the `web_search` tool definition sent with the function tools
+ * @param options Resolved options
+ */
+export function buildWebSearchTool(options: WebSearchOptions): ZhipuWebSearchToolDef {
+	return {
+		type: "web_search",
+		web_search: {
+			enable: true,
+			search_engine: options.searchEngine,
+			// Ask for the results so they can be cited
+			search_result: true,
+			count: options.count,
+			search_recency_filter: options.recency,
+		},
+	};
+}
+
+/**
+ * Read the results of a `web_search` stream field, skipping entries without a link
+ * @param value Field value
+ */
+export function parseWebSearchResults(value: unknown): WebSearchResult[] {
+	if (!Array.isArray(value)) {
+		return [];
+	}
+	const results: WebSearchResult[] = [];
+	for (const item of value) {
+		if (!item || typeof item !== "object") {
+			continue;
+		}
+		const raw = item as Record<string, unknown>;
+		if (typeof raw.link !== "string" || !raw.link) {
+			continue;
+		}
+		results.push({
+			title: typeof raw.title === "string" && raw.title.trim() ? raw.title.trim() : raw.link,
+			link: raw.link,
+			media: typeof raw.media === "string" && raw.media ? raw.media : undefined,
+			refer: typeof raw.refer === "string" && raw.refer ? raw.refer : undefined,
+			publishDate: typeof raw.publish_date === "string" && raw.publish_date ? raw.publish_date : undefined,
+		});
+	}
+	return results;
+}
+
+/**
+ * Render search results as a Markdown list of sources, numbered like the answer's references
+ * @param results Search results
+ */
+export function formatCitations(results: readonly WebSearchResult[]): string {
+	// Use the "ref_N" markers when every result has one, positions otherwise
+	const refs = results.map((r) => /^\[?ref_(\d+)\]?$/.exec(r.refer ?? "")?.[1]);
+	const byRef = refs.every((ref) => ref !== undefined);
+	const lines = results.map((r, i) => {
+		const label = byRef ? refs[i] : String(i + 1);
+		const details = [r.media, r.publishDate].filter(Boolean).join(", ");
+		return `- [${label}] [${r.title.replace(/[[\]]/g, "")}](${r.link.replace(/\(/g, "%28").replace(/\)/g, "%29")})${details ? ` — ${details}` : ""}`;
+	});
+	return `\n\n**Sources**\n\n${lines.join("\n")}\n`;
+}
+
+/**
+ * Entries of a per-model setting that match a model, general patterns first
+ * @param perModel Setting value keyed by model ID or "*" pattern
+ * @param modelId Model ID
+ */
+function matchingEntries(perModel: Record<string, WebSearchSettings>, modelId: string): WebSearchSettings[] {
+	return Object.entries(perModel)
+		.filter(([pattern]) => matchesModelPattern(pattern, modelId))
+		.map(([pattern, settings]) => ({ settings, score: modelPatternSpecificity(pattern) }))
+		.sort((a, b) => a.score - b.score)
+		.map((m) => m.settings);
+}